@@ -8,6 +8,19 @@ const replace = require('@rollup/plugin-replace');
 
 const packageInfo = require('./package.json');
 
+const createPlugins = () => [
+  nodeResolve(),
+  commonjs(),
+  typescript({tsconfig: './tsconfig.json'}),
+  postcss({extract: 'styles.css'}),
+  replace({
+    preventAssignment: true,
+    values: {
+      __SDK_VERSION__: JSON.stringify(version),
+    },
+  }),
+];
+
 module.exports = [
   {
     input: 'src/index.tsx',
@@ -28,17 +41,22 @@ module.exports = [
       'react-dom',
       'react/jsx-runtime',
     ],
-    plugins: [
-      nodeResolve(),
-      commonjs(),
-      typescript({tsconfig: './tsconfig.json'}),
-      postcss({extract: 'styles.css'}),
-      replace({
-        preventAssignment: true,
-        values: {
-          __SDK_VERSION__: JSON.stringify(version),
-        },
-      }),
+    plugins: createPlugins(),
+  },
+  {
+    input: 'src/vanilla.ts',
+    output: [
+      {
+        file: packageInfo.exports['./core'].require,
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: packageInfo.exports['./core'].import,
+        format: 'esm',
+        sourcemap: true,
+      },
     ],
+    plugins: createPlugins(),
   },
 ];
@@ -9,6 +9,11 @@ afterEach(() => {
 (function mockDialogApi() {
   // jsdom does not implement the native dialog API, so we mock it
 
+  // Node environment specs (e.g. server rendering) have no DOM to patch
+  if (typeof (global as any).HTMLElement === 'undefined') {
+    return;
+  }
+
   if (typeof (global as any).HTMLDialogElement === 'undefined') {
     (global as any).HTMLDialogElement = class HTMLDialogElement extends (global as any).HTMLElement {
     };
@@ -0,0 +1,72 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest';
+
+import {startContentRefresh} from './content-refresh';
+
+const debugLog = () => undefined;
+
+const setVisibility = (visibilityState: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', {value: visibilityState, configurable: true});
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('startContentRefresh', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setVisibility('visible');
+  });
+
+  it('refreshes on the configured interval', () => {
+    const refresh = vi.fn();
+    const stop = startContentRefresh({interval: 1000}, refresh, debugLog);
+
+    vi.advanceTimersByTime(2500);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    stop();
+  });
+
+  it('refreshes when the page becomes visible again', () => {
+    const refresh = vi.fn();
+    const stop = startContentRefresh({}, refresh, debugLog);
+
+    setVisibility('hidden');
+    expect(refresh).not.toHaveBeenCalled();
+    setVisibility('visible');
+    expect(refresh).toHaveBeenCalledTimes(1);
+    stop();
+  });
+
+  it('refreshes when the browser comes back online', () => {
+    const refresh = vi.fn();
+    const stop = startContentRefresh({}, refresh, debugLog);
+
+    window.dispatchEvent(new Event('online'));
+    expect(refresh).toHaveBeenCalledTimes(1);
+    stop();
+  });
+
+  it('skips triggers that are turned off', () => {
+    const refresh = vi.fn();
+    const stop = startContentRefresh({onVisibilityChange: false, onOnline: false}, refresh, debugLog);
+
+    setVisibility('visible');
+    window.dispatchEvent(new Event('online'));
+    vi.advanceTimersByTime(60_000);
+    expect(refresh).not.toHaveBeenCalled();
+    stop();
+  });
+
+  it('stops refreshing once stopped', () => {
+    const refresh = vi.fn();
+    const stop = startContentRefresh({interval: 1000}, refresh, debugLog);
+    stop();
+
+    vi.advanceTimersByTime(5000);
+    setVisibility('visible');
+    window.dispatchEvent(new Event('online'));
+    expect(refresh).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+import {type DebugLog} from './debug';
+import {isBrowser} from './environment';
+
+export type ContentRefreshConfig = {
+  interval?: number; // milliseconds; no periodic refresh when omitted
+  onVisibilityChange?: boolean; // refresh when the page becomes visible again (default: true)
+  onOnline?: boolean; // refresh when the browser comes back online (default: true)
+};
+
+/**
+ * Invokes `refresh` periodically and whenever the page regains visibility or connectivity,
+ * as configured.
+ *
+ * @returns a function stopping the refreshes
+ */
+export function startContentRefresh(
+  config: ContentRefreshConfig,
+  refresh: () => void,
+  debugLog: DebugLog,
+): () => void {
+  if (!isBrowser()) return () => undefined;
+
+  const cleanups: (() => void)[] = [];
+
+  if (config.interval !== undefined && config.interval > 0) {
+    const intervalId = setInterval(() => {
+      debugLog('Refreshing content on interval');
+      refresh();
+    }, config.interval);
+    cleanups.push(() => clearInterval(intervalId));
+  }
+
+  if (config.onVisibilityChange ?? true) {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      debugLog('Refreshing content after page became visible');
+      refresh();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    cleanups.push(() => document.removeEventListener('visibilitychange', handleVisibilityChange));
+  }
+
+  if (config.onOnline ?? true) {
+    const handleOnline = () => {
+      debugLog('Refreshing content after coming back online');
+      refresh();
+    };
+    window.addEventListener('online', handleOnline);
+    cleanups.push(() => window.removeEventListener('online', handleOnline));
+  }
+
+  return () => cleanups.forEach((cleanup) => cleanup());
+}
@@ -0,0 +1,49 @@
+import {describe, it, expect, beforeEach} from 'vitest';
+
+import {createLocalStorageContentAdapter, getContentStorageKey} from './content-store';
+
+const entry = {
+  storedAt: 1000,
+  content: [{
+    id: 'content-1',
+    triggerPoint: 'tp',
+    type: 'featurette' as const,
+    presentationType: 'popup' as const,
+    viewUrl: 'https://mock.content.com/embed',
+  }],
+};
+
+describe('getContentStorageKey', () => {
+  it('keys content by organization code and user ID', () => {
+    expect(getContentStorageKey('org', 'user-1')).not.toEqual(getContentStorageKey('org', 'user-2'));
+    expect(getContentStorageKey('org', 'user-1')).not.toEqual(getContentStorageKey('other-org', 'user-1'));
+  });
+});
+
+describe('createLocalStorageContentAdapter', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('reads written content', () => {
+    const storage = createLocalStorageContentAdapter();
+    storage.write('key', entry);
+    expect(storage.read('key')).toEqual(entry);
+  });
+
+  it('removes content', () => {
+    const storage = createLocalStorageContentAdapter();
+    storage.write('key', entry);
+    storage.remove('key');
+    expect(storage.read('key')).toBeUndefined();
+  });
+
+  it('ignores malformed entries', () => {
+    const storage = createLocalStorageContentAdapter();
+    localStorage.setItem('not-json', '{');
+    localStorage.setItem('no-content', JSON.stringify({storedAt: 1000}));
+
+    expect(storage.read('not-json')).toBeUndefined();
+    expect(storage.read('no-content')).toBeUndefined();
+  });
+});
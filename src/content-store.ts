@@ -0,0 +1,48 @@
+import {type TargetedContent} from './targeted-content';
+
+export type PersistedContent = {
+  content: TargetedContent[];
+  storedAt: number; // milliseconds since the epoch
+};
+
+/**
+ * Storage for the last content set fetched for a user.
+ * Methods may be asynchronous so that stores such as IndexedDB can be used.
+ */
+export type ContentStorageAdapter = {
+  read: (key: string) => PersistedContent | undefined | Promise<PersistedContent | undefined>;
+  write: (key: string, entry: PersistedContent) => void | Promise<void>;
+  remove: (key: string) => void | Promise<void>;
+};
+
+export type OfflineContentConfig = {
+  maxAge?: number; // milliseconds; older content is not served (default: 24 hours)
+  storage?: ContentStorageAdapter; // default: localStorage
+};
+
+export const defaultOfflineContentMaxAge = 24 * 60 * 60 * 1000;
+
+export const getContentStorageKey = (organizationCode: string, userId: string): string =>
+  `_wcx_content:${organizationCode}:${userId}`;
+
+/**
+ * Creates a content storage adapter backed by localStorage.
+ */
+export const createLocalStorageContentAdapter = (): ContentStorageAdapter => ({
+  read: (key) => {
+    const stored = localStorage.getItem(key);
+    if (!stored) return undefined;
+    try {
+      const entry = JSON.parse(stored);
+      return Array.isArray(entry?.content) && typeof entry.storedAt === 'number' ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  },
+  write: (key, entry) => {
+    localStorage.setItem(key, JSON.stringify(entry));
+  },
+  remove: (key) => {
+    localStorage.removeItem(key);
+  },
+});
@@ -0,0 +1,214 @@
+import {describe, it, expect, vi, afterEach} from 'vitest';
+
+import {
+  composeServerSentEventsTransport,
+  composeWebSocketTransport,
+  openContentStream,
+  type ContentStreamTransport,
+} from './content-stream';
+
+type TransportOptions = Parameters<ContentStreamTransport>[0];
+
+const retryConfig = {maxAttempts: 3, initialDelay: 1, maxDelay: 1, multiplier: 1};
+
+const createFakeTransport = (shouldOpen: (attempt: number) => boolean) => {
+  const connections: {options: TransportOptions; close: ReturnType<typeof vi.fn>}[] = [];
+  const transport: ContentStreamTransport = (options) => {
+    const connection = {options, close: vi.fn()};
+    connections.push(connection);
+    const attempt = connections.length;
+    setTimeout(() => shouldOpen(attempt) ? options.onOpen() : options.onError(new Error('failed')));
+    return connection;
+  };
+  return {transport, connections};
+};
+
+const open = (transport: ContentStreamTransport, onMessage = vi.fn()) => openContentStream({
+  transport,
+  organizationCode: 'org',
+  sessionToken: 'token',
+  userId: 'user-1',
+  retryConfig,
+  debugLog: () => undefined,
+  onMessage,
+});
+
+describe('openContentStream', () => {
+  it('connects with the session details and delivers messages', async () => {
+    const {transport, connections} = createFakeTransport(() => true);
+    const onMessage = vi.fn();
+    const close = open(transport, onMessage);
+
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+    expect(connections[0].options).toMatchObject({organizationCode: 'org', sessionToken: 'token', userId: 'user-1'});
+
+    connections[0].options.onMessage({type: 'content-removed', contentId: 'content-1'});
+    expect(onMessage).toHaveBeenCalledWith({type: 'content-removed', contentId: 'content-1'});
+    close();
+  });
+
+  it('retries failed connection attempts with backoff', async () => {
+    const {transport, connections} = createFakeTransport((attempt) => attempt === 3);
+    const close = open(transport);
+
+    await vi.waitFor(() => expect(connections).toHaveLength(3));
+    expect(connections[0].close).toHaveBeenCalled();
+    expect(connections[1].close).toHaveBeenCalled();
+    expect(connections[2].close).not.toHaveBeenCalled();
+    close();
+  });
+
+  it('gives up after the configured number of attempts', async () => {
+    const {transport, connections} = createFakeTransport(() => false);
+    const close = open(transport);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(connections).toHaveLength(retryConfig.maxAttempts);
+    close();
+  });
+
+  it('reconnects when an open connection is lost', async () => {
+    const {transport, connections} = createFakeTransport(() => true);
+    const close = open(transport);
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+    await new Promise((resolve) => setTimeout(resolve));
+
+    connections[0].options.onError(new Error('lost'));
+
+    await vi.waitFor(() => expect(connections).toHaveLength(2));
+    close();
+  });
+
+  it('closes the connection and stops delivering messages once closed', async () => {
+    const {transport, connections} = createFakeTransport(() => true);
+    const onMessage = vi.fn();
+    const close = open(transport, onMessage);
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+
+    close();
+    connections[0].options.onMessage({type: 'content-removed', contentId: 'content-1'});
+
+    expect(connections[0].close).toHaveBeenCalled();
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+});
+
+// Stands in for EventSource and WebSocket, which dispatch events the same way
+class FakeConnection extends EventTarget {
+  static instances: FakeConnection[] = [];
+  constructor(readonly url: string) {
+    super();
+    FakeConnection.instances.push(this);
+  }
+  close = vi.fn();
+  receive(data: unknown) {
+    this.dispatchEvent(new MessageEvent('message', {data}));
+  }
+}
+
+const transportOptions = () => ({
+  organizationCode: 'org',
+  sessionToken: 'token/with+chars',
+  userId: 'user-1',
+  onOpen: vi.fn(),
+  onMessage: vi.fn(),
+  onError: vi.fn(),
+});
+
+describe('composeServerSentEventsTransport', () => {
+  afterEach(() => {
+    FakeConnection.instances = [];
+    vi.unstubAllGlobals();
+  });
+
+  it('connects to the stream endpoint with the encoded session token', () => {
+    vi.stubGlobal('EventSource', FakeConnection);
+    const options = transportOptions();
+
+    composeServerSentEventsTransport({apiBaseUrl: 'https://api.mock.com'})(options);
+    FakeConnection.instances[0].dispatchEvent(new Event('open'));
+
+    expect(FakeConnection.instances[0].url)
+      .toBe('https://api.mock.com/org/targeted-content-stream?sessionToken=token%2Fwith%2Bchars');
+    expect(options.onOpen).toHaveBeenCalled();
+  });
+
+  it('delivers well-formed messages and ignores malformed ones', () => {
+    vi.stubGlobal('EventSource', FakeConnection);
+    const options = transportOptions();
+    composeServerSentEventsTransport({apiBaseUrl: 'https://api.mock.com'})(options);
+    const source = FakeConnection.instances[0];
+
+    source.receive('not json');
+    source.receive(JSON.stringify({contentId: 'content-1'}));
+    source.receive(JSON.stringify({type: 'content-removed', contentId: 'content-1'}));
+
+    expect(options.onMessage.mock.calls).toEqual([[{type: 'content-removed', contentId: 'content-1'}]]);
+  });
+
+  it('closes the source and reports an error when the connection fails', () => {
+    vi.stubGlobal('EventSource', FakeConnection);
+    const options = transportOptions();
+    composeServerSentEventsTransport({apiBaseUrl: 'https://api.mock.com'})(options);
+
+    FakeConnection.instances[0].dispatchEvent(new Event('error'));
+
+    expect(FakeConnection.instances[0].close).toHaveBeenCalled();
+    expect(options.onError).toHaveBeenCalledWith(expect.objectContaining({code: 'network'}));
+  });
+});
+
+describe('composeWebSocketTransport', () => {
+  afterEach(() => {
+    FakeConnection.instances = [];
+    vi.unstubAllGlobals();
+  });
+
+  it('connects to the stream endpoint with the encoded session token', () => {
+    vi.stubGlobal('WebSocket', FakeConnection);
+    const options = transportOptions();
+
+    composeWebSocketTransport({apiBaseUrl: 'wss://api.mock.com'})(options);
+    FakeConnection.instances[0].dispatchEvent(new Event('open'));
+
+    expect(FakeConnection.instances[0].url)
+      .toBe('wss://api.mock.com/org/targeted-content-stream?sessionToken=token%2Fwith%2Bchars');
+    expect(options.onOpen).toHaveBeenCalled();
+  });
+
+  it('delivers well-formed messages and ignores malformed ones', () => {
+    vi.stubGlobal('WebSocket', FakeConnection);
+    const options = transportOptions();
+    composeWebSocketTransport({apiBaseUrl: 'wss://api.mock.com'})(options);
+    const socket = FakeConnection.instances[0];
+
+    socket.receive('{');
+    socket.receive(new ArrayBuffer(8));
+    socket.receive(JSON.stringify({type: 'content-removed', contentId: 'content-1'}));
+
+    expect(options.onMessage.mock.calls).toEqual([[{type: 'content-removed', contentId: 'content-1'}]]);
+  });
+
+  it('reports an error when the connection is closed by the other end', () => {
+    vi.stubGlobal('WebSocket', FakeConnection);
+    const options = transportOptions();
+    composeWebSocketTransport({apiBaseUrl: 'wss://api.mock.com'})(options);
+
+    FakeConnection.instances[0].dispatchEvent(new Event('close'));
+
+    expect(options.onError).toHaveBeenCalledWith(expect.objectContaining({code: 'network'}));
+  });
+
+  it('does not report an error once closed', () => {
+    vi.stubGlobal('WebSocket', FakeConnection);
+    const options = transportOptions();
+    const connection = composeWebSocketTransport({apiBaseUrl: 'wss://api.mock.com'})(options);
+    const socket = FakeConnection.instances[0];
+    socket.close.mockImplementation(() => socket.dispatchEvent(new Event('close')));
+
+    connection.close();
+
+    expect(socket.close).toHaveBeenCalled();
+    expect(options.onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import {type TargetedContent} from './targeted-content';
+import {type DebugLog} from './debug';
+import {retryWithBackoff, type RetryConfig} from './retry';
+import {WaveCxError} from './errors';
+
+export type ContentStreamMessage =
+  | { type: 'content-added'; content: TargetedContent }
+  | { type: 'content-updated'; content: TargetedContent }
+  | { type: 'content-removed'; contentId: string };
+
+export type ContentStreamConnection = {
+  close: () => void;
+};
+
+/**
+ * Opens a channel receiving content changes for a session.
+ * Implementations invoke `onOpen` once connected, `onMessage` for each change,
+ * and `onError` when the connection fails or is lost.
+ */
+export type ContentStreamTransport = (options: {
+  organizationCode: string;
+  sessionToken: string;
+  userId: string;
+  onOpen: () => void;
+  onMessage: (message: ContentStreamMessage) => void;
+  onError: (error: unknown) => void;
+}) => ContentStreamConnection;
+
+const parseMessage = (data: unknown): ContentStreamMessage | undefined => {
+  try {
+    const message = typeof data === 'string' ? JSON.parse(data) : undefined;
+    return message && typeof message.type === 'string' ? message : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const getStreamUrl = (apiBaseUrl: string, options: { organizationCode: string; sessionToken: string }) =>
+  `${apiBaseUrl}/${options.organizationCode}/targeted-content-stream`
+  + `?sessionToken=${encodeURIComponent(options.sessionToken)}`;
+
+/**
+ * Creates a transport receiving content changes as Server-Sent Events.
+ */
+export const composeServerSentEventsTransport =
+  (dependencies: { apiBaseUrl: string }): ContentStreamTransport =>
+  (options) => {
+    const source = new EventSource(getStreamUrl(dependencies.apiBaseUrl, options));
+    source.addEventListener('open', () => options.onOpen());
+    source.addEventListener('message', (e) => {
+      const message = parseMessage(e.data);
+      if (message) options.onMessage(message);
+    });
+    // EventSource reconnects on its own; reconnection is left to the caller instead
+    source.addEventListener('error', () => {
+      source.close();
+      options.onError(new WaveCxError('network', 'Content stream connection failed'));
+    });
+    return {close: () => source.close()};
+  };
+
+/**
+ * Creates a transport receiving content changes over a WebSocket.
+ */
+export const composeWebSocketTransport =
+  (dependencies: { apiBaseUrl: string }): ContentStreamTransport =>
+  (options) => {
+    const socket = new WebSocket(getStreamUrl(dependencies.apiBaseUrl, options));
+    let isClosing = false;
+    socket.addEventListener('open', () => options.onOpen());
+    socket.addEventListener('message', (e) => {
+      const message = parseMessage(e.data);
+      if (message) options.onMessage(message);
+    });
+    socket.addEventListener('close', () => {
+      if (!isClosing) {
+        options.onError(new WaveCxError('network', 'Content stream connection closed'));
+      }
+    });
+    return {
+      close: () => {
+        isClosing = true;
+        socket.close();
+      },
+    };
+  };
+
+/**
+ * Opens a content stream, reconnecting with backoff when the connection fails or is lost.
+ *
+ * @returns a function closing the stream
+ */
+export function openContentStream(options: {
+  transport: ContentStreamTransport;
+  organizationCode: string;
+  sessionToken: string;
+  userId: string;
+  retryConfig: RetryConfig;
+  debugLog: DebugLog;
+  onMessage: (message: ContentStreamMessage) => void;
+}): () => void {
+  const {transport, retryConfig, debugLog} = options;
+  let connection: ContentStreamConnection | undefined;
+  let isClosed = false;
+
+  const connectOnce = () => new Promise<void>((resolve, reject) => {
+    if (isClosed) {
+      resolve();
+      return;
+    }
+
+    let isOpen = false;
+    let hasFailed = false;
+    let current: ContentStreamConnection | undefined = undefined;
+    current = transport({
+      organizationCode: options.organizationCode,
+      sessionToken: options.sessionToken,
+      userId: options.userId,
+      onOpen: () => {
+        isOpen = true;
+        debugLog('Content stream opened');
+        resolve();
+      },
+      onMessage: (message) => {
+        if (!isClosed) options.onMessage(message);
+      },
+      onError: (error) => {
+        if (hasFailed) return;
+        hasFailed = true;
+        current?.close();
+        if (!isOpen) {
+          reject(error);
+        } else if (!isClosed) {
+          debugLog('Content stream lost, reconnecting', { error });
+          connect();
+        }
+      },
+    });
+    connection = current;
+    // The transport may fail before returning, or the stream may have been closed meanwhile
+    if (hasFailed || isClosed) current.close();
+  });
+
+  const connect = () => {
+    retryWithBackoff(connectOnce, retryConfig, debugLog).catch((error) => {
+      debugLog('Content stream could not be opened', { error });
+    });
+  };
+
+  connect();
+
+  return () => {
+    isClosed = true;
+    connection?.close();
+    connection = undefined;
+  };
+}
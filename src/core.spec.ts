@@ -1,15 +1,12 @@
-import {describe, it, expect, beforeAll, beforeEach, vi} from 'vitest';
-import {
-  createHandleEvent,
-  resetCoreState,
-  getContentCache,
-  getIsContentLoading,
-  getActiveTriggerPoint,
-  hasContent,
-  hasPopupContentForTriggerPoint,
-  subscribe,
-} from './core';
-import {clearSessionToken} from './sessions';
+import {describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi} from 'vitest';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+import {createWaveCxClient, type CoreConfig, type WaveCxClient} from './core';
+import {createSessionManager, type SessionStore} from './sessions';
+import {WaveCxError} from './errors';
+import {type ContentStreamTransport} from './content-stream';
+import {type OutboxEntry, type OutboxStorageAdapter} from './outbox';
+import {type TelemetryBatch} from './telemetry';
 
 const setupMockHtmlDialogElement = () => {
   HTMLDialogElement.prototype.show = function mock(this: HTMLDialogElement) {
@@ -24,7 +21,17 @@ const setupMockHtmlDialogElement = () => {
   };
 };
 
-const mockContent = (overrides: Partial<{ triggerPoint: string; presentationType: string; viewUrl: string }> = {}) => ({
+const mockContent = (
+  overrides: Partial<{
+    id: string;
+    triggerPoint: string;
+    presentationType: string;
+    viewUrl: string;
+    priority: number;
+  }> = {},
+) => ({
+  id: overrides.id ?? `${overrides.triggerPoint ?? 'tp'}-${overrides.presentationType ?? 'popup'}`,
+  priority: overrides.priority,
   type: 'featurette' as const,
   triggerPoint: overrides.triggerPoint ?? 'tp',
   presentationType: (overrides.presentationType ?? 'popup') as 'popup' | 'button-triggered',
@@ -36,43 +43,54 @@ describe('core', () => {
     setupMockHtmlDialogElement();
   });
 
+  let client: WaveCxClient;
+  const createClient = (config: CoreConfig) => {
+    client = createWaveCxClient(config);
+    return client;
+  };
+
+  const sessions = createSessionManager({organizationCode: 'org'});
+
   beforeEach(() => {
-    resetCoreState();
-    clearSessionToken();
+    sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    client?.destroy();
   });
 
   describe('session lifecycle', () => {
     it('populates content cache on session start', async () => {
       const content = [mockContent()];
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({content}),
       });
 
       await handleEvent({type: 'session-started', userId: 'user-1'});
 
-      expect(getContentCache()).toEqual(content);
-      expect(getIsContentLoading()).toBe(false);
+      expect(client.getContentCache()).toEqual(content);
+      expect(client.getIsContentLoading()).toBe(false);
     });
 
     it('clears content cache on session end', async () => {
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({content: [mockContent()]}),
       });
 
       await handleEvent({type: 'session-started', userId: 'user-1'});
-      expect(getContentCache()).toHaveLength(1);
+      expect(client.getContentCache()).toHaveLength(1);
 
       await handleEvent({type: 'session-ended'});
-      expect(getContentCache()).toHaveLength(0);
+      expect(client.getContentCache()).toHaveLength(0);
     });
 
     it('sets isContentLoading during session start', async () => {
       let resolveApi!: (value: any) => void;
       const apiPromise = new Promise(r => { resolveApi = r; });
 
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => {
           await apiPromise;
@@ -81,17 +99,17 @@ describe('core', () => {
       });
 
       const promise = handleEvent({type: 'session-started', userId: 'user-1'});
-      expect(getIsContentLoading()).toBe(true);
+      expect(client.getIsContentLoading()).toBe(true);
 
       resolveApi(undefined);
       await promise;
-      expect(getIsContentLoading()).toBe(false);
+      expect(client.getIsContentLoading()).toBe(false);
     });
 
     it('uses custom initiateSession to get token, then fetches content via session-refresh', async () => {
       const calls: string[] = [];
 
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         initiateSession: async (opts) => {
           calls.push(`initiateSession:${opts.userId}`);
@@ -111,17 +129,50 @@ describe('core', () => {
         'initiateSession:user-1',
         'recordEvent:session-refresh:custom-token',
       ]);
-      expect(getContentCache()).toHaveLength(1);
+      expect(client.getContentCache()).toHaveLength(1);
+    });
+
+    it('starts a fresh session when the stored token belongs to another user', async () => {
+      const recordEvent = vi.fn(async (options: {type: string; userId: string}) => ({
+        sessionToken: `token-${options.userId}`,
+        content: [mockContent({id: 'popup-1', triggerPoint: 'tp-1'})],
+      }));
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent});
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      document.querySelector('dialog')!.close();
+
+      // a different user logs in on the same device without a session-ended event
+      await handleEvent({type: 'session-started', userId: 'user-2'});
+
+      expect(recordEvent).toHaveBeenLastCalledWith(expect.objectContaining({
+        type: 'session-started', userId: 'user-2',
+      }));
+      expect(recordEvent).not.toHaveBeenCalledWith(expect.objectContaining({
+        sessionToken: 'token-user-1', userId: 'user-2',
+      }));
+      expect(sessions.readSessionToken()).toBe('token-user-2');
+      expect(sessions.readSessionTokenOwner()).toEqual({organizationCode: 'org', userId: 'user-2'});
+      expect(client.hasContent('tp-1', 'popup')).toBe(true);
+      expect(client.hasSeen('popup-1')).toBe(false);
+    });
+
+    it('binds a session token of unknown owner to the user starting the session', async () => {
+      sessions.storeSessionToken('initial-token', 3600);
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent: async () => ({content: []})});
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(sessions.readSessionTokenOwner()).toEqual({organizationCode: 'org', userId: 'user-1'});
     });
 
     it('skips initiateSession when session token already exists', async () => {
       // Pre-store a session token
-      const {storeSessionToken} = await import('./sessions');
-      storeSessionToken('existing-token', 3600);
+      sessions.storeSessionToken('existing-token', 3600);
 
       const calls: string[] = [];
 
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         initiateSession: async () => {
           calls.push('initiateSession');
@@ -144,7 +195,7 @@ describe('core', () => {
       let resolveApi!: (value: any) => void;
       const apiPromise = new Promise(r => { resolveApi = r; });
 
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => {
           callCount++;
@@ -164,7 +215,7 @@ describe('core', () => {
 
   describe('content queries', () => {
     it('hasContent returns true for matching content', async () => {
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({
           content: [
@@ -176,15 +227,15 @@ describe('core', () => {
 
       await handleEvent({type: 'session-started', userId: 'user-1'});
 
-      expect(hasContent('tp-1')).toBe(true);
-      expect(hasContent('tp-1', 'popup')).toBe(true);
-      expect(hasContent('tp-1', 'button-triggered')).toBe(false);
-      expect(hasContent('tp-2', 'button-triggered')).toBe(true);
-      expect(hasContent('nonexistent')).toBe(false);
+      expect(client.hasContent('tp-1')).toBe(true);
+      expect(client.hasContent('tp-1', 'popup')).toBe(true);
+      expect(client.hasContent('tp-1', 'button-triggered')).toBe(false);
+      expect(client.hasContent('tp-2', 'button-triggered')).toBe(true);
+      expect(client.hasContent('nonexistent')).toBe(false);
     });
 
     it('hasPopupContentForTriggerPoint delegates to hasContent', async () => {
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({
           content: [mockContent({triggerPoint: 'tp-1', presentationType: 'popup'})],
@@ -193,14 +244,14 @@ describe('core', () => {
 
       await handleEvent({type: 'session-started', userId: 'user-1'});
 
-      expect(hasPopupContentForTriggerPoint('tp-1')).toBe(true);
-      expect(hasPopupContentForTriggerPoint('tp-2')).toBe(false);
+      expect(client.hasPopupContentForTriggerPoint('tp-1')).toBe(true);
+      expect(client.hasPopupContentForTriggerPoint('tp-2')).toBe(false);
     });
   });
 
   describe('user-triggered content', () => {
     it('falls back to active trigger point when no triggerPoint provided', async () => {
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({
           content: [mockContent({triggerPoint: 'tp-1', presentationType: 'button-triggered'})],
@@ -221,7 +272,7 @@ describe('core', () => {
 
   describe('trigger points', () => {
     it('consumes popup content after trigger point fires', async () => {
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({
           content: [mockContent({triggerPoint: 'tp-1', presentationType: 'popup'})],
@@ -229,14 +280,14 @@ describe('core', () => {
       });
 
       await handleEvent({type: 'session-started', userId: 'user-1'});
-      expect(hasContent('tp-1', 'popup')).toBe(true);
+      expect(client.hasContent('tp-1', 'popup')).toBe(true);
 
       await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
-      expect(hasContent('tp-1', 'popup')).toBe(false);
+      expect(client.hasContent('tp-1', 'popup')).toBe(false);
     });
 
     it('does not consume button-triggered content after trigger point fires', async () => {
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({
           content: [mockContent({triggerPoint: 'tp-1', presentationType: 'button-triggered'})],
@@ -245,28 +296,28 @@ describe('core', () => {
 
       await handleEvent({type: 'session-started', userId: 'user-1'});
       await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
-      expect(hasContent('tp-1', 'button-triggered')).toBe(true);
+      expect(client.hasContent('tp-1', 'button-triggered')).toBe(true);
     });
 
     it('tracks active trigger point', async () => {
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({content: []}),
       });
 
       await handleEvent({type: 'session-started', userId: 'user-1'});
 
-      expect(getActiveTriggerPoint()).toBeUndefined();
+      expect(client.getActiveTriggerPoint()).toBeUndefined();
 
       await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
-      expect(getActiveTriggerPoint()).toBe('tp-1');
+      expect(client.getActiveTriggerPoint()).toBe('tp-1');
 
       await handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
-      expect(getActiveTriggerPoint()).toBe('tp-2');
+      expect(client.getActiveTriggerPoint()).toBe('tp-2');
     });
 
     it('does not dismiss modal when same trigger point fires again (strict mode safety)', async () => {
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({
           content: [mockContent({triggerPoint: 'tp-1', presentationType: 'popup'})],
@@ -290,7 +341,7 @@ describe('core', () => {
     });
 
     it('does not consume popup content when disablePopupContent is true', async () => {
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         disablePopupContent: true,
         recordEvent: async () => ({
@@ -300,7 +351,7 @@ describe('core', () => {
 
       await handleEvent({type: 'session-started', userId: 'user-1'});
       await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
-      expect(hasContent('tp-1', 'popup')).toBe(true);
+      expect(client.hasContent('tp-1', 'popup')).toBe(true);
     });
   });
 
@@ -309,7 +360,7 @@ describe('core', () => {
       let resolveApi!: (value: any) => void;
       const apiPromise = new Promise(r => { resolveApi = r; });
 
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => {
           await apiPromise;
@@ -323,25 +374,24 @@ describe('core', () => {
 
       // Fire trigger point while loading — should be queued
       await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
-      expect(getActiveTriggerPoint()).toBeUndefined();
+      expect(client.getActiveTriggerPoint()).toBeUndefined();
 
       resolveApi(undefined);
       await sessionPromise;
 
       // After loading, queued trigger point should have been processed
-      expect(getActiveTriggerPoint()).toBe('tp-1');
+      expect(client.getActiveTriggerPoint()).toBe('tp-1');
     });
   });
 
   describe('subscribe', () => {
     it('notifies listeners on state changes', async () => {
       const listener = vi.fn();
-      const unsubscribe = subscribe(listener);
-
-      const handleEvent = createHandleEvent({
+      const {handleEvent, subscribe} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({content: []}),
       });
+      const unsubscribe = subscribe(listener);
 
       await handleEvent({type: 'session-started', userId: 'user-1'});
 
@@ -351,23 +401,2227 @@ describe('core', () => {
 
     it('stops notifying after unsubscribe', async () => {
       const listener = vi.fn();
+      const {handleEvent, subscribe} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: []}),
+      });
       const unsubscribe = subscribe(listener);
       unsubscribe();
 
-      const handleEvent = createHandleEvent({
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('initial content', () => {
+    it('makes initial content available before the session starts', () => {
+      createClient({
+        organizationCode: 'org',
+        initialContent: [mockContent({triggerPoint: 'tp-1'})],
+      });
+
+      expect(client.hasContent('tp-1', 'popup')).toBe(true);
+      expect(client.getIsContentLoading()).toBe(false);
+    });
+
+    it('skips the API request on session start when initial content is provided', async () => {
+      const recordEvent = vi.fn(async () => ({content: []}));
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent,
+        initialContent: [mockContent({triggerPoint: 'tp-1'})],
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(recordEvent).not.toHaveBeenCalled();
+      expect(client.hasContent('tp-1')).toBe(true);
+    });
+
+    it('stores the initial session token for later refreshes', async () => {
+      const calls: string[] = [];
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async (event) => {
+          calls.push(`${event.type}:${event.sessionToken}`);
+          return {content: []};
+        },
+        initialContent: [],
+        initialSessionToken: 'server-token',
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(calls).toEqual(['session-refresh:server-token']);
+    });
+
+    it('fetches content for sessions started after the initial session ends', async () => {
+      const recordEvent = vi.fn(async () => ({content: [mockContent({triggerPoint: 'tp-2'})]}));
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent,
+        initialContent: [mockContent({triggerPoint: 'tp-1'})],
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'session-ended'});
+      await handleEvent({type: 'session-started', userId: 'user-2'});
+
+      expect(recordEvent).toHaveBeenCalledTimes(1);
+      expect(client.hasContent('tp-1')).toBe(false);
+      expect(client.hasContent('tp-2')).toBe(true);
+    });
+
+    it('fetches content for a session started for another user than the initial content was fetched for', async () => {
+      const calls: unknown[] = [];
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async (event) => {
+          calls.push({type: event.type, userId: event.userId, sessionToken: event.sessionToken});
+          return {sessionToken: 'token-user-2', content: [mockContent({triggerPoint: 'tp-2'})]};
+        },
+        initialContent: [mockContent({triggerPoint: 'tp-1'})],
+        initialSessionToken: 'server-token',
+        initialUserId: 'user-1',
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-2'});
+
+      expect(calls).toEqual([{type: 'session-started', userId: 'user-2', sessionToken: undefined}]);
+      expect(client.hasContent('tp-1')).toBe(false);
+      expect(client.hasContent('tp-2')).toBe(true);
+    });
+
+    it('uses initial content for the user it was fetched for', async () => {
+      const recordEvent = vi.fn(async () => ({content: []}));
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent,
+        initialContent: [mockContent({triggerPoint: 'tp-1'})],
+        initialSessionToken: 'server-token',
+        initialUserId: 'user-1',
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(recordEvent).not.toHaveBeenCalled();
+      expect(client.hasContent('tp-1')).toBe(true);
+    });
+
+    it('shows initial popup content for trigger points fired before the session starts', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        initialContent: [mockContent({triggerPoint: 'tp-1'})],
+      });
+
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      expect(document.querySelector('dialog')).not.toBeNull();
+    });
+  });
+
+  describe('lifecycle callbacks', () => {
+    it('reports content shown and dismissed with its trigger point', async () => {
+      const content = mockContent({triggerPoint: 'tp-1'});
+      const onContentShown = vi.fn();
+      const onContentDismissed = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [content]}),
+        onContentShown,
+        onContentDismissed,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      expect(onContentShown).toHaveBeenCalledWith({contentId: 'tp-1-popup', content, triggerPoint: 'tp-1'});
+      expect(onContentDismissed).not.toHaveBeenCalled();
+
+      document.querySelector('dialog')!.close();
+      expect(onContentDismissed).toHaveBeenCalledWith({contentId: 'tp-1-popup', content, triggerPoint: 'tp-1'});
+    });
+
+    it('does not report a dismissal when no content was shown', async () => {
+      const onContentDismissed = vi.fn();
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({content: []}),
+        onContentDismissed,
       });
 
       await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
 
-      expect(listener).not.toHaveBeenCalled();
+      expect(onContentDismissed).not.toHaveBeenCalled();
+    });
+
+    it('reports content rejected for an invalid URL', async () => {
+      const content = mockContent({triggerPoint: 'tp-1', viewUrl: 'javascript:alert(1)'});
+      const onContentRejected = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [content]}),
+        onContentRejected,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      expect(onContentRejected).toHaveBeenCalledWith({
+        contentId: 'tp-1-popup', content, triggerPoint: 'tp-1', reason: 'invalid-url',
+      });
+    });
+
+    it('reports the content frame loading', async () => {
+      const content = mockContent({triggerPoint: 'tp-1', presentationType: 'button-triggered'});
+      const onIframeLoaded = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [content]}),
+        onIframeLoaded,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'user-triggered-content', triggerPoint: 'tp-1'});
+      document.querySelector('iframe')!.dispatchEvent(new Event('load'));
+
+      expect(onIframeLoaded).toHaveBeenCalledWith({
+        contentId: 'tp-1-button-triggered', content, triggerPoint: 'tp-1',
+      });
+    });
+
+    it('reports session start with the received content', async () => {
+      const content = [mockContent()];
+      const onSessionStarted = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content}),
+        onSessionStarted,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(onSessionStarted).toHaveBeenCalledWith({userId: 'user-1', content});
+    });
+
+    it('reports session start failures', async () => {
+      const error = new Error('unavailable');
+      const onSessionStarted = vi.fn();
+      const onSessionError = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => { throw error; },
+        onSessionStarted,
+        onSessionError,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(onSessionError).toHaveBeenCalledWith({
+        userId: 'user-1',
+        error: expect.objectContaining({code: 'unknown', cause: error}),
+      });
+      expect(onSessionStarted).not.toHaveBeenCalled();
+    });
+
+    it('keeps handling events when a callback throws', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [mockContent({triggerPoint: 'tp-1'})]}),
+        onContentShown: () => { throw new Error('callback failure'); },
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      expect(client.hasContent('tp-1', 'popup')).toBe(false);
+      expect(document.querySelector('dialog')).not.toBeNull();
+    });
+  });
+
+  describe('errors', () => {
+    it('exposes the error when a session fails to start', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => {
+          throw new WaveCxError('http-status', 'API request failed with status 503', {status: 503});
+        },
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(client.getError()).toBeInstanceOf(WaveCxError);
+      expect(client.getError()?.code).toBe('http-status');
+      expect(client.getError()?.status).toBe(503);
+      expect(client.getContentCache()).toEqual([]);
+    });
+
+    it('has no error when a session starts without content', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: []}),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(client.getError()).toBeUndefined();
+    });
+
+    it('classifies initiateSession failures as session-init errors', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        initiateSession: async () => { throw new Error('backend unavailable'); },
+        recordEvent: async () => ({content: []}),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(client.getError()?.code).toBe('session-init');
+    });
+
+    it('retries the failed session start and clears the error on success', async () => {
+      const recordEvent = vi.fn()
+        .mockRejectedValueOnce(new WaveCxError('network', 'API request could not be sent'))
+        .mockResolvedValue({content: [mockContent({triggerPoint: 'tp-1'})]});
+      const {handleEvent, retry} = createClient({organizationCode: 'org', recordEvent});
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      expect(client.getError()?.code).toBe('network');
+
+      await retry();
+
+      expect(recordEvent).toHaveBeenCalledTimes(2);
+      expect(recordEvent.mock.calls[1][0]).toEqual(expect.objectContaining({userId: 'user-1'}));
+      expect(client.getError()).toBeUndefined();
+      expect(client.hasContent('tp-1')).toBe(true);
+    });
+
+    it('starts a new session when the stored session token is rejected', async () => {
+      sessions.storeSessionToken('revoked-token', 3600, 'user-1');
+      const recordEvent = vi.fn(async (options: {type: string}) => {
+        if (options.type === 'session-refresh') {
+          throw new WaveCxError('token-expired', 'API request failed with status 401', {status: 401});
+        }
+        return {sessionToken: 'new-token', content: [mockContent({triggerPoint: 'tp-1'})]};
+      });
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent});
+
+      await handleEvent({
+        type: 'session-started', userId: 'user-1', userIdVerification: 'verification', userAttributes: {plan: 'pro'},
+      });
+
+      expect(recordEvent).toHaveBeenLastCalledWith({
+        type: 'session-started',
+        organizationCode: 'org',
+        userId: 'user-1',
+        userIdVerification: 'verification',
+        userAttributes: {plan: 'pro'},
+      });
+      expect(sessions.readSessionToken()).toBe('new-token');
+      expect(client.getError()).toBeUndefined();
+      expect(client.hasContent('tp-1')).toBe(true);
+    });
+
+    it('initiates a new session when the stored session token is rejected', async () => {
+      sessions.storeSessionToken('revoked-token', 3600, 'user-1');
+      const initiateSession = vi.fn(async () => ({sessionToken: 'new-token'}));
+      const recordEvent = vi.fn(async (options: {sessionToken?: string}) => {
+        if (options.sessionToken === 'revoked-token') {
+          throw new WaveCxError('token-expired', 'API request failed with status 403', {status: 403});
+        }
+        return {content: [mockContent({triggerPoint: 'tp-1'})]};
+      });
+      const {handleEvent} = createClient({organizationCode: 'org', initiateSession, recordEvent});
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(initiateSession).toHaveBeenCalledTimes(1);
+      expect(recordEvent).toHaveBeenLastCalledWith(expect.objectContaining({sessionToken: 'new-token'}));
+      expect(client.hasContent('tp-1')).toBe(true);
+    });
+
+    it('keeps the session token when a refresh fails for another reason', async () => {
+      sessions.storeSessionToken('existing-token', 3600, 'user-1');
+      const recordEvent = vi.fn(async () => {
+        throw new WaveCxError('http-status', 'API request failed with status 503', {status: 503});
+      });
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent});
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(recordEvent).toHaveBeenCalledTimes(1);
+      expect(client.getError()?.code).toBe('http-status');
+      expect(sessions.readSessionToken()).toBe('existing-token');
+    });
+
+    it('clears the error when the session ends', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => { throw new WaveCxError('network', 'API request could not be sent'); },
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'session-ended'});
+
+      expect(client.getError()).toBeUndefined();
+    });
+  });
+
+  describe('content IDs', () => {
+    it('assigns IDs to content received without one', async () => {
+      const content = {...mockContent({triggerPoint: 'tp-1'}), id: undefined};
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [content]}),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(client.getContentCache()[0].id).toBe('tp-1:popup:https://mock.content.com/embed');
+    });
+
+    it('removes duplicate content received in one response', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [
+            mockContent({id: 'content-1', triggerPoint: 'tp-1'}),
+            mockContent({id: 'content-1', triggerPoint: 'tp-1'}),
+            mockContent({id: 'content-2', triggerPoint: 'tp-1', presentationType: 'button-triggered'}),
+          ],
+        }),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(client.getContentCache().map((c) => c.id)).toEqual(['content-1', 'content-2']);
+    });
+
+    it('shows content by ID and records it as seen', async () => {
+      const {handleEvent, showContent, hasSeen} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [mockContent({id: 'content-1', triggerPoint: 'tp-1', presentationType: 'button-triggered'})],
+        }),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      expect(hasSeen('content-1')).toBe(false);
+
+      expect(showContent('content-1')).toBe(true);
+      expect(document.querySelector('dialog')).not.toBeNull();
+      expect(hasSeen('content-1')).toBe(true);
+      expect(showContent('unknown')).toBe(false);
+    });
+
+    it('consumes popup content shown by ID', async () => {
+      const {handleEvent, showContent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [mockContent({id: 'content-1', triggerPoint: 'tp-1'})]}),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      showContent('content-1');
+
+      expect(client.hasContent('tp-1', 'popup')).toBe(false);
+    });
+
+    it('passes the dismissed content ID to dismissal callbacks', async () => {
+      const onContentDismissed = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [mockContent({id: 'content-1', triggerPoint: 'tp-1'})]}),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1', onContentDismissed});
+      document.querySelector('dialog')!.close();
+
+      expect(onContentDismissed).toHaveBeenCalledWith('content-1');
+    });
+
+    it('forgets seen content when the session ends', async () => {
+      const {handleEvent, hasSeen} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [mockContent({id: 'content-1', triggerPoint: 'tp-1'})]}),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await handleEvent({type: 'session-ended'});
+
+      expect(hasSeen('content-1')).toBe(false);
+    });
+  });
+
+  describe('popup sequences', () => {
+    const shownViewUrl = () => document.querySelector('iframe')?.getAttribute('src');
+
+    it('presents every popup for a trigger point in priority order', async () => {
+      const onContentShown = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [
+            mockContent({id: 'low', triggerPoint: 'tp-1', viewUrl: 'https://mock.content.com/low'}),
+            mockContent({id: 'high', triggerPoint: 'tp-1', viewUrl: 'https://mock.content.com/high', priority: 2}),
+            mockContent({id: 'mid', triggerPoint: 'tp-1', viewUrl: 'https://mock.content.com/mid', priority: 1}),
+          ],
+        }),
+        onContentShown,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      expect(shownViewUrl()).toBe('https://mock.content.com/high');
+
+      document.querySelector('dialog')!.close();
+      expect(shownViewUrl()).toBe('https://mock.content.com/mid');
+
+      document.querySelector('dialog')!.close();
+      expect(shownViewUrl()).toBe('https://mock.content.com/low');
+
+      document.querySelector('dialog')!.close();
+      expect(document.querySelector('dialog')).toBeNull();
+      expect(onContentShown.mock.calls.map(([details]) => details.contentId)).toEqual(['high', 'mid', 'low']);
+      expect(client.hasContent('tp-1', 'popup')).toBe(false);
+    });
+
+    it('invokes the trigger point dismissal callback once the sequence is finished', async () => {
+      const onContentDismissed = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [
+            mockContent({id: 'first', triggerPoint: 'tp-1'}),
+            mockContent({id: 'second', triggerPoint: 'tp-1'}),
+          ],
+        }),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1', onContentDismissed});
+
+      document.querySelector('dialog')!.close();
+      expect(onContentDismissed).not.toHaveBeenCalled();
+
+      document.querySelector('dialog')!.close();
+      expect(onContentDismissed).toHaveBeenCalledTimes(1);
+      expect(onContentDismissed).toHaveBeenCalledWith('second');
+    });
+
+    it('does not restart the sequence when the same trigger point fires again', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [
+            mockContent({id: 'first', triggerPoint: 'tp-1', viewUrl: 'https://mock.content.com/first'}),
+            mockContent({id: 'second', triggerPoint: 'tp-1', viewUrl: 'https://mock.content.com/second'}),
+          ],
+        }),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      expect(shownViewUrl()).toBe('https://mock.content.com/first');
+    });
+
+    it('keeps unpresented popups when another trigger point interrupts the sequence', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [
+            mockContent({id: 'first', triggerPoint: 'tp-1', viewUrl: 'https://mock.content.com/first'}),
+            mockContent({id: 'second', triggerPoint: 'tp-1', viewUrl: 'https://mock.content.com/second'}),
+          ],
+        }),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+      expect(document.querySelector('dialog')).toBeNull();
+
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      expect(shownViewUrl()).toBe('https://mock.content.com/second');
+    });
+
+    it('finishes the sequence when user-triggered content replaces it', async () => {
+      const onTriggerPointDismissed = vi.fn();
+      const onContentDismissed = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [
+            mockContent({id: 'first', triggerPoint: 'tp-1', viewUrl: 'https://mock.content.com/first'}),
+            mockContent({id: 'second', triggerPoint: 'tp-1', viewUrl: 'https://mock.content.com/second'}),
+            mockContent({
+              id: 'button',
+              triggerPoint: 'tp-1',
+              presentationType: 'button-triggered',
+              viewUrl: 'https://mock.content.com/button',
+            }),
+          ],
+        }),
+        onContentDismissed,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1', onContentDismissed: onTriggerPointDismissed});
+      await handleEvent({type: 'user-triggered-content'});
+
+      expect(shownViewUrl()).toBe('https://mock.content.com/button');
+      expect(onTriggerPointDismissed).toHaveBeenCalledWith('first');
+      expect(onContentDismissed.mock.calls.map(([details]) => details.contentId)).toEqual(['first']);
+
+      document.querySelector('dialog')!.close();
+      expect(document.querySelector('dialog')).toBeNull();
+      expect(onContentDismissed.mock.calls.map(([details]) => details.contentId)).toEqual(['first', 'button']);
+      expect(client.hasContent('tp-1', 'popup')).toBe(true);
+    });
+
+    it('finishes the sequence when content shown by ID replaces it', async () => {
+      const onTriggerPointDismissed = vi.fn();
+      const onShownContentDismissed = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [
+            mockContent({id: 'first', triggerPoint: 'tp-1'}),
+            mockContent({id: 'second', triggerPoint: 'tp-1'}),
+            mockContent({id: 'other', triggerPoint: 'tp-2', viewUrl: 'https://mock.content.com/other'}),
+          ],
+        }),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1', onContentDismissed: onTriggerPointDismissed});
+      client.showContent('other', onShownContentDismissed);
+
+      expect(shownViewUrl()).toBe('https://mock.content.com/other');
+      expect(onTriggerPointDismissed).toHaveBeenCalledWith('first');
+
+      document.querySelector('dialog')!.close();
+      expect(document.querySelector('dialog')).toBeNull();
+      expect(onShownContentDismissed).toHaveBeenCalledWith('other');
+      expect(onTriggerPointDismissed).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('consumed popup persistence', () => {
+    const createSessionClient = () => createClient({
+      organizationCode: 'org',
+      recordEvent: async () => ({
+        sessionToken: 'token',
+        content: [
+          mockContent({id: 'popup-1', triggerPoint: 'tp-1'}),
+          mockContent({id: 'button-1', triggerPoint: 'tp-1', presentationType: 'button-triggered'}),
+        ],
+      }),
+    });
+
+    it('does not present consumed popups again after a reload', async () => {
+      const first = createSessionClient();
+      await first.handleEvent({type: 'session-started', userId: 'user-1'});
+      await first.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      first.destroy();
+
+      // simulate a page reload: a new client refreshes the stored session
+      const reloaded = createSessionClient();
+      await reloaded.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(sessions.readConsumedContentIds()).toEqual(['popup-1']);
+      expect(reloaded.hasContent('tp-1', 'popup')).toBe(false);
+      expect(reloaded.hasContent('tp-1', 'button-triggered')).toBe(true);
+    });
+
+    it('reports consumed popups as seen after a reload', async () => {
+      const first = createSessionClient();
+      await first.handleEvent({type: 'session-started', userId: 'user-1'});
+      await first.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      first.destroy();
+
+      // simulate a page reload: a new client refreshes the stored session
+      const reloaded = createSessionClient();
+      await reloaded.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(reloaded.hasSeen('popup-1')).toBe(true);
+      expect(reloaded.hasSeen('button-1')).toBe(false);
+    });
+
+    it('clears consumed popups when the session ends', async () => {
+      const {handleEvent} = createSessionClient();
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await handleEvent({type: 'session-ended'});
+
+      expect(sessions.readConsumedContentIds()).toEqual([]);
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      expect(client.hasContent('tp-1', 'popup')).toBe(true);
+    });
+  });
+
+  describe('popup policy', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const popups = [
+      mockContent({id: 'popup-1', triggerPoint: 'tp-1'}),
+      mockContent({id: 'popup-2', triggerPoint: 'tp-2'}),
+      mockContent({id: 'popup-3', triggerPoint: 'tp-3'}),
+    ];
+
+    it('suppresses popups beyond the session maximum and keeps them cached', async () => {
+      const onContentSuppressed = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: popups}),
+        popupPolicy: {maxPopupsPerSession: 1},
+        onContentSuppressed,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      document.querySelector('dialog')!.close();
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+
+      expect(document.querySelector('dialog')).toBeNull();
+      expect(client.hasContent('tp-2', 'popup')).toBe(true);
+      expect(onContentSuppressed).toHaveBeenCalledWith({
+        contentId: 'popup-2',
+        content: popups[1],
+        triggerPoint: 'tp-2',
+        reason: 'max-popups-per-session',
+      });
+    });
+
+    it('shortens a sequence to the popups left for the session', async () => {
+      const onContentSuppressed = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [
+            mockContent({id: 'first', triggerPoint: 'tp-1', priority: 1}),
+            mockContent({id: 'second', triggerPoint: 'tp-1'}),
+          ],
+        }),
+        popupPolicy: {maxPopupsPerSession: 1},
+        onContentSuppressed,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      document.querySelector('dialog')!.close();
+
+      expect(document.querySelector('dialog')).toBeNull();
+      expect(onContentSuppressed.mock.calls.map(([details]) => details.contentId)).toEqual(['second']);
+    });
+
+    it('suppresses popups within the minimum interval', async () => {
+      vi.useFakeTimers({toFake: ['Date']});
+      const onContentSuppressed = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: popups}),
+        popupPolicy: {minInterval: 60_000},
+        onContentSuppressed,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      document.querySelector('dialog')!.close();
+
+      vi.advanceTimersByTime(30_000);
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+      expect(document.querySelector('dialog')).toBeNull();
+      expect(onContentSuppressed).toHaveBeenCalledWith(expect.objectContaining({reason: 'min-interval'}));
+
+      vi.advanceTimersByTime(30_000);
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+      expect(document.querySelector('dialog')).not.toBeNull();
+    });
+
+    it('applies a cooldown per trigger point', async () => {
+      vi.useFakeTimers({toFake: ['Date']});
+      const onContentSuppressed = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [
+            mockContent({id: 'first', triggerPoint: 'tp-1'}),
+            mockContent({id: 'second', triggerPoint: 'tp-1'}),
+            ...popups.slice(1),
+          ],
+        }),
+        popupPolicy: {triggerPointCooldown: {'tp-1': 60_000}},
+        onContentSuppressed,
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      // interrupt the sequence, leaving the second popup for later
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+      document.querySelector('dialog')!.close();
+
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      expect(document.querySelector('dialog')).toBeNull();
+      expect(onContentSuppressed).toHaveBeenCalledWith(expect.objectContaining({
+        contentId: 'second', reason: 'trigger-point-cooldown',
+      }));
+
+      vi.advanceTimersByTime(60_000);
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-3'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      expect(document.querySelector('iframe')).not.toBeNull();
+      expect(client.hasContent('tp-1', 'popup')).toBe(false);
+    });
+
+    it('keeps popup history across a reload', async () => {
+      const createPolicyClient = () => createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({sessionToken: 'token', content: popups}),
+        popupPolicy: {maxPopupsPerSession: 1},
+      });
+
+      const first = createPolicyClient();
+      await first.handleEvent({type: 'session-started', userId: 'user-1'});
+      await first.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      first.destroy();
+
+      // simulate a page reload: a new client refreshes the stored session
+      const reloaded = createPolicyClient();
+      await reloaded.handleEvent({type: 'session-started', userId: 'user-1'});
+      await reloaded.handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+
+      expect(document.querySelector('dialog')).toBeNull();
+      expect(reloaded.hasContent('tp-2', 'popup')).toBe(true);
+    });
+
+    it('resets popup history when the session ends', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: popups}),
+        popupPolicy: {maxPopupsPerSession: 1},
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await handleEvent({type: 'session-ended'});
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+
+      expect(document.querySelector('dialog')).not.toBeNull();
+    });
+  });
+
+  describe('scheduling windows', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({toFake: ['Date', 'setTimeout', 'clearTimeout']});
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('ignores content outside its window', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [
+            {...mockContent({id: 'upcoming', triggerPoint: 'tp-1'}), startsAt: '2025-01-02T00:00:00Z'},
+            {...mockContent({id: 'ended', triggerPoint: 'tp-2'}), endsAt: '2024-12-31T00:00:00Z'},
+            {
+              ...mockContent({id: 'button', triggerPoint: 'tp-1', presentationType: 'button-triggered'}),
+              startsAt: '2025-01-02T00:00:00Z',
+            },
+          ],
+        }),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      expect(client.hasContent('tp-1')).toBe(false);
+      expect(client.hasContent('tp-2')).toBe(false);
+
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await handleEvent({type: 'user-triggered-content'});
+      expect(document.querySelector('dialog')).toBeNull();
+      expect(client.showContent('ended')).toBe(false);
+    });
+
+    it('notifies listeners when a window opens and closes', async () => {
+      const listener = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [{
+            ...mockContent({triggerPoint: 'tp-1', presentationType: 'button-triggered'}),
+            startsAt: '2025-01-01T01:00:00Z',
+            endsAt: '2025-01-01T02:00:00Z',
+          }],
+        }),
+      });
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      client.subscribe(listener);
+
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(client.hasContent('tp-1', 'button-triggered')).toBe(true);
+
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(client.hasContent('tp-1', 'button-triggered')).toBe(false);
+    });
+
+    it('presents popup content once its window opens', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [{...mockContent({triggerPoint: 'tp-1'}), startsAt: '2025-01-01T01:00:00Z'}],
+        }),
+      });
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      expect(document.querySelector('dialog')).not.toBeNull();
+    });
+
+    it('stops watching windows when the session ends', async () => {
+      const listener = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          content: [{...mockContent({triggerPoint: 'tp-1'}), startsAt: '2025-01-01T01:00:00Z'}],
+        }),
+      });
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'session-ended'});
+      client.subscribe(listener);
+
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('background refresh', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({toFake: ['setInterval', 'clearInterval']});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const createRefreshingClient = (responses: ReturnType<typeof mockContent>[][]) => {
+      const recordEvent = vi.fn(async () => ({
+        sessionToken: 'token',
+        content: responses.length > 1 ? responses.shift()! : responses[0],
+      }));
+      createClient({
+        organizationCode: 'org',
+        recordEvent,
+        contentRefresh: {interval: 60_000},
+      });
+      return recordEvent;
+    };
+
+    it('refreshes content with the stored session token on an interval', async () => {
+      const recordEvent = createRefreshingClient([
+        [mockContent({id: 'popup-1', triggerPoint: 'tp-1'})],
+        [mockContent({id: 'popup-2', triggerPoint: 'tp-2'})],
+      ]);
+      const listener = vi.fn();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      client.subscribe(listener);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(recordEvent).toHaveBeenLastCalledWith({
+        organizationCode: 'org', type: 'session-refresh', sessionToken: 'token', userId: 'user-1',
+      });
+      expect(client.getContentCache().map((c) => c.id)).toEqual(['popup-2']);
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('does not bring back consumed popups', async () => {
+      createRefreshingClient([
+        [mockContent({id: 'popup-1', triggerPoint: 'tp-1'})],
+        [mockContent({id: 'popup-1', triggerPoint: 'tp-1'}), mockContent({id: 'popup-2', triggerPoint: 'tp-1'})],
+      ]);
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      document.querySelector('dialog')!.close();
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(client.getContentCache().map((c) => c.id)).toEqual(['popup-2']);
+    });
+
+    it('pauses refreshing while the client is released', async () => {
+      const recordEvent = createRefreshingClient([[mockContent()]]);
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      client.release();
+      await vi.advanceTimersByTimeAsync(120_000);
+      expect(recordEvent).toHaveBeenCalledTimes(1);
+
+      client.connect();
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(recordEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('refreshes when the browser comes back online', async () => {
+      const recordEvent = createRefreshingClient([[mockContent()]]);
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      window.dispatchEvent(new Event('online'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(recordEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('starts a new session when the session token is rejected', async () => {
+      const recordEvent = vi.fn(async (options: {type: string; sessionToken?: string}) => {
+        if (options.sessionToken === 'token-1') {
+          throw new WaveCxError('token-expired', 'API request failed with status 401', {status: 401});
+        }
+        return options.type === 'session-started'
+          ? {sessionToken: recordEvent.mock.calls.length === 1 ? 'token-1' : 'token-2', content: [mockContent()]}
+          : {content: [mockContent({id: 'popup-2', triggerPoint: 'tp-2'})]};
+      });
+      createClient({organizationCode: 'org', recordEvent, contentRefresh: {interval: 60_000}});
+      await client.handleEvent({type: 'session-started', userId: 'user-1', userAttributes: {plan: 'pro'}});
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(recordEvent.mock.calls.map(([options]) => options.type))
+        .toEqual(['session-started', 'session-refresh', 'session-started']);
+      expect(recordEvent.mock.calls[2][0]).toEqual(expect.objectContaining({userAttributes: {plan: 'pro'}}));
+      expect(sessions.readSessionToken()).toBe('token-2');
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(recordEvent).toHaveBeenLastCalledWith(expect.objectContaining({sessionToken: 'token-2'}));
+      expect(client.getContentCache().map((c) => c.id)).toEqual(['popup-2']);
+    });
+
+    it('stops refreshing when the session ends', async () => {
+      const recordEvent = createRefreshingClient([[mockContent()]]);
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'session-ended'});
+
+      await vi.advanceTimersByTimeAsync(120_000);
+      window.dispatchEvent(new Event('online'));
+
+      expect(recordEvent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('content stream', () => {
+    const createStreamingClient = (content = [mockContent({id: 'popup-1', triggerPoint: 'tp-1'})]) => {
+      const connections: Parameters<ContentStreamTransport>[0][] = [];
+      const close = vi.fn();
+      const transport: ContentStreamTransport = (options) => {
+        connections.push(options);
+        options.onOpen();
+        return {close};
+      };
+      createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({sessionToken: 'token', content}),
+        contentStream: transport,
+      });
+      return {connections, close};
+    };
+
+    it('opens once a session token is obtained', async () => {
+      const {connections} = createStreamingClient();
+      expect(connections).toHaveLength(0);
+
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(connections).toHaveLength(1);
+      expect(connections[0]).toMatchObject({organizationCode: 'org', sessionToken: 'token', userId: 'user-1'});
+    });
+
+    it('applies pushed content changes to the cache', async () => {
+      const {connections} = createStreamingClient([
+        mockContent({id: 'popup-1', triggerPoint: 'tp-1'}),
+        mockContent({id: 'button-1', triggerPoint: 'tp-1', presentationType: 'button-triggered'}),
+      ]);
+      const listener = vi.fn();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      client.subscribe(listener);
+      const [{onMessage}] = connections;
+
+      onMessage({type: 'content-added', content: mockContent({id: 'outage', triggerPoint: 'tp-2'})});
+      onMessage({
+        type: 'content-updated',
+        content: mockContent({id: 'popup-1', triggerPoint: 'tp-1', viewUrl: 'https://mock.content.com/v2'}),
+      });
+      onMessage({type: 'content-removed', contentId: 'button-1'});
+
+      expect(client.getContentCache().map((c) => [c.id, c.viewUrl])).toEqual([
+        ['popup-1', 'https://mock.content.com/v2'],
+        ['outage', 'https://mock.content.com/embed'],
+      ]);
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not bring back consumed popups', async () => {
+      const {connections} = createStreamingClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      connections[0].onMessage({type: 'content-updated', content: mockContent({id: 'popup-1', triggerPoint: 'tp-1'})});
+
+      expect(client.hasContent('tp-1', 'popup')).toBe(false);
+    });
+
+    it('closes when the session ends', async () => {
+      const {close} = createStreamingClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'session-ended'});
+
+      expect(close).toHaveBeenCalled();
+    });
+  });
+
+  describe('offline content', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const content = [mockContent({id: 'popup-1', triggerPoint: 'tp-1'})];
+
+    const persistContent = async (userId = 'user-1') => {
+      const online = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content}),
+        offlineContent: {},
+      });
+      await online.handleEvent({type: 'session-started', userId});
+      online.destroy();
+    };
+
+    it('serves persisted content when the API is unreachable', async () => {
+      await persistContent();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => {
+          throw new WaveCxError('network', 'API request could not be sent');
+        },
+        offlineContent: {},
+      });
+
+      const sessionStarted = handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await sessionStarted;
+
+      expect(client.getError()?.code).toBe('network');
+      expect(document.querySelector('dialog')).not.toBeNull();
+    });
+
+    it('replaces persisted content once fresh content is fetched', async () => {
+      await persistContent();
+      let resolveContent: (value: {content: ReturnType<typeof mockContent>[]}) => void = () => undefined;
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: () => new Promise((resolve) => { resolveContent = resolve; }),
+        offlineContent: {},
+      });
+
+      const sessionStarted = handleEvent({type: 'session-started', userId: 'user-1'});
+      await vi.waitFor(() => expect(client.getContentCache()).toEqual(content));
+      expect(client.getIsContentLoading()).toBe(false);
+
+      resolveContent({content: [mockContent({id: 'popup-2', triggerPoint: 'tp-2'})]});
+      await sessionStarted;
+
+      expect(client.getContentCache().map((c) => c.id)).toEqual(['popup-2']);
+    });
+
+    it('does not serve content older than the max age', async () => {
+      await persistContent();
+      vi.useFakeTimers({toFake: ['Date']});
+      vi.setSystemTime(Date.now() + 60_000);
+      const recordEvent = vi.fn(() => new Promise<never>(() => undefined));
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent,
+        offlineContent: {maxAge: 30_000},
+      });
+
+      void handleEvent({type: 'session-started', userId: 'user-1'});
+      await vi.waitFor(() => expect(recordEvent).toHaveBeenCalled());
+
+      expect(client.getContentCache()).toEqual([]);
+      expect(client.getIsContentLoading()).toBe(true);
+    });
+
+    it('keeps content separate between users', async () => {
+      await persistContent('user-1');
+      const recordEvent = vi.fn(() => new Promise<never>(() => undefined));
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent, offlineContent: {}});
+
+      void handleEvent({type: 'session-started', userId: 'user-2'});
+      await vi.waitFor(() => expect(recordEvent).toHaveBeenCalled());
+
+      expect(client.getContentCache()).toEqual([]);
+    });
+
+    it('removes persisted content when the session ends', async () => {
+      const storage = {read: vi.fn(), write: vi.fn(), remove: vi.fn()};
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content}),
+        offlineContent: {storage},
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      expect(storage.write).toHaveBeenCalledWith('_wcx_content:org:user-1', {content, storedAt: expect.any(Number)});
+
+      await handleEvent({type: 'session-ended'});
+      expect(storage.remove).toHaveBeenCalledWith('_wcx_content:org:user-1');
+    });
+  });
+
+  describe('token renewal', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({toFake: ['Date', 'setTimeout', 'clearTimeout']});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('exposes the remaining token lifetime', async () => {
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({sessionToken: 'token', expiresIn: 120, content: []}),
+      });
+      expect(client.getSessionTokenLifetime()).toBeUndefined();
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      expect(client.getSessionTokenLifetime()).toBe(120_000);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(client.getSessionTokenLifetime()).toBe(90_000);
+    });
+
+    it('renews the token with a refresh before it expires', async () => {
+      const recordEvent = vi.fn(async (options: {type: string}) => options.type === 'session-started'
+        ? {sessionToken: 'token-1', expiresIn: 120, content: []}
+        : {sessionToken: 'token-2', expiresIn: 3600, content: [mockContent()]});
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent});
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await vi.advanceTimersByTimeAsync(59_999);
+      expect(recordEvent).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(recordEvent).toHaveBeenLastCalledWith({
+        organizationCode: 'org', type: 'session-refresh', sessionToken: 'token-1', userId: 'user-1',
+      });
+      expect(client.getSessionTokenLifetime()).toBe(3_600_000);
+      expect(client.getContentCache()).toHaveLength(1);
+    });
+
+    it('renews tokens living shorter than the lead time halfway through their lifetime', async () => {
+      const recordEvent = vi.fn(async () => ({sessionToken: 'token', expiresIn: 30, content: []}));
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent});
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await vi.advanceTimersByTimeAsync(14_999);
+      expect(recordEvent).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(recordEvent).toHaveBeenCalledTimes(2);
+      expect(recordEvent).toHaveBeenLastCalledWith(expect.objectContaining({type: 'session-refresh'}));
+
+      await vi.advanceTimersByTimeAsync(14_999);
+      expect(recordEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('renews the token with initiateSession when configured', async () => {
+      const initiateSession = vi.fn()
+        .mockResolvedValueOnce({sessionToken: 'token-1', expiresIn: 120})
+        .mockResolvedValueOnce({sessionToken: 'token-2', expiresIn: 3600});
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        initiateSession,
+        recordEvent: async () => ({content: []}),
+        tokenRenewalLeadTime: 10_000,
+      });
+      await handleEvent({type: 'session-started', userId: 'user-1', userIdVerification: 'verification'});
+
+      await vi.advanceTimersByTimeAsync(110_000);
+
+      expect(initiateSession).toHaveBeenCalledTimes(2);
+      expect(initiateSession).toHaveBeenLastCalledWith({
+        organizationCode: 'org', userId: 'user-1', userIdVerification: 'verification', userAttributes: undefined,
+      });
+      expect(client.getSessionTokenLifetime()).toBe(3_600_000);
+    });
+
+    it('reports failed renewals', async () => {
+      const onSessionError = vi.fn();
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async (options) => {
+          if (options.type === 'session-refresh') throw new WaveCxError('network', 'API request could not be sent');
+          return {sessionToken: 'token', expiresIn: 120, content: []};
+        },
+        onSessionError,
+      });
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(onSessionError).toHaveBeenCalledWith({
+        userId: 'user-1', error: expect.objectContaining({code: 'network'}),
+      });
+    });
+
+    it('retries failed renewals with backoff, reporting the failure once', async () => {
+      const onSessionError = vi.fn();
+      let refreshes = 0;
+      const {handleEvent} = createClient({
+        organizationCode: 'org',
+        recordEvent: async (options) => {
+          if (options.type !== 'session-refresh') return {sessionToken: 'token-1', expiresIn: 120, content: []};
+          refreshes++;
+          if (refreshes < 3) throw new WaveCxError('network', 'API request could not be sent');
+          return {sessionToken: 'token-2', expiresIn: 3600, content: []};
+        },
+        onSessionError,
+      });
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await vi.advanceTimersByTimeAsync(61_000);
+      expect(refreshes).toBe(2);
+      expect(client.getSessionTokenLifetime()).toBe(59_000);
+
+      await vi.advanceTimersByTimeAsync(2_000);
+      expect(refreshes).toBe(3);
+      expect(client.getSessionTokenLifetime()).toBe(3_600_000);
+      expect(onSessionError).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries renewals until the token expires', async () => {
+      const recordEvent = vi.fn(async (options: {type: string}) => {
+        if (options.type === 'session-refresh') throw new WaveCxError('network', 'API request could not be sent');
+        return {sessionToken: 'token', expiresIn: 120, content: []};
+      });
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent});
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await vi.advanceTimersByTimeAsync(120_000);
+      const attempts = recordEvent.mock.calls.length;
+      expect(attempts).toBeGreaterThan(3);
+
+      await vi.advanceTimersByTimeAsync(600_000);
+      expect(recordEvent).toHaveBeenCalledTimes(attempts);
+    });
+
+    it('retries renewals that did not issue a new token', async () => {
+      const recordEvent = vi.fn()
+        .mockResolvedValueOnce({sessionToken: 'token-1', expiresIn: 120, content: []})
+        .mockResolvedValueOnce({content: []})
+        .mockResolvedValueOnce({sessionToken: 'token-2', expiresIn: 3600, content: []});
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent});
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await vi.advanceTimersByTimeAsync(61_000);
+
+      expect(recordEvent).toHaveBeenCalledTimes(3);
+      expect(client.getSessionTokenLifetime()).toBe(3_600_000);
+    });
+
+    it('stops renewing when the session ends', async () => {
+      const recordEvent = vi.fn(async () => ({sessionToken: 'token', expiresIn: 120, content: []}));
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent});
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'session-ended'});
+
+      await vi.advanceTimersByTimeAsync(120_000);
+
+      expect(recordEvent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('session store', () => {
+    it('refreshes a session kept in an asynchronous store', async () => {
+      const values = new Map([
+        ['_wcx_org_st', 'stored-token'],
+        ['_wcx_org_st_exp', new Date(Date.now() + 60_000).toISOString()],
+      ]);
+      const sessionStore: SessionStore = {
+        getItem: async (key) => values.get(key) ?? null,
+        setItem: async (key, value) => { values.set(key, value); },
+        removeItem: async (key) => { values.delete(key); },
+      };
+      const recordEvent = vi.fn(async () => ({content: []}));
+      const {handleEvent} = createClient({organizationCode: 'org', recordEvent, sessionStore});
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(recordEvent).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'session-refresh', sessionToken: 'stored-token',
+      }));
+      expect(sessionStorage.length).toBe(0);
+    });
+  });
+
+  describe('cross-tab sync', () => {
+    let otherTab: WaveCxClient | undefined;
+
+    afterEach(() => {
+      otherTab?.destroy();
+      otherTab = undefined;
+    });
+
+    const createTabs = (crossTabSync = true) => {
+      const recordEvent = async () => ({content: [mockContent({id: 'popup-1', triggerPoint: 'tp-1'})]});
+      const otherTabRecordEvent = vi.fn(recordEvent);
+      otherTab = createWaveCxClient({organizationCode: 'org', recordEvent: otherTabRecordEvent, crossTabSync});
+      const tab = createClient({organizationCode: 'org', recordEvent, crossTabSync});
+      return {tab, otherTab, otherTabRecordEvent};
+    };
+
+    it('stops receiving messages from other tabs once released, until connected again', async () => {
+      const {tab, otherTab, otherTabRecordEvent} = createTabs();
+      otherTab.release();
+
+      await tab.handleEvent({type: 'session-started', userId: 'user-1'});
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(otherTabRecordEvent).not.toHaveBeenCalled();
+
+      otherTab.connect();
+      await tab.handleEvent({type: 'session-started', userId: 'user-2'});
+      await vi.waitFor(() => expect(otherTabRecordEvent).toHaveBeenCalled());
+    });
+
+    it('ends the session in other tabs', async () => {
+      const {tab, otherTab} = createTabs();
+      await otherTab.handleEvent({type: 'session-started', userId: 'user-1'});
+      await tab.handleEvent({type: 'session-started', userId: 'user-1'});
+      const listener = vi.fn();
+      otherTab.subscribe(listener);
+
+      await tab.handleEvent({type: 'session-ended'});
+
+      await vi.waitFor(() => expect(otherTab.getContentCache()).toEqual([]));
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('does not present popups consumed in another tab', async () => {
+      const {tab, otherTab} = createTabs();
+      await otherTab.handleEvent({type: 'session-started', userId: 'user-1'});
+      await tab.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await tab.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      await vi.waitFor(() => expect(otherTab.hasContent('tp-1', 'popup')).toBe(false));
+    });
+
+    it('starts the session in other tabs', async () => {
+      const {tab, otherTab, otherTabRecordEvent} = createTabs();
+
+      await tab.handleEvent({type: 'session-started', userId: 'user-1', userIdVerification: 'verification'});
+
+      await vi.waitFor(() => expect(otherTab.hasContent('tp-1')).toBe(true));
+      expect(otherTabRecordEvent).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1', userIdVerification: 'verification',
+      }));
+    });
+
+    it('starts anonymous sessions in other tabs', async () => {
+      const {tab, otherTab, otherTabRecordEvent} = createTabs();
+
+      await tab.handleEvent({type: 'anonymous-session-started'});
+
+      await vi.waitFor(() => expect(otherTab.hasContent('tp-1')).toBe(true));
+      expect(otherTabRecordEvent).toHaveBeenCalledWith(expect.objectContaining({isAnonymous: true}));
+    });
+
+    it('keeps tabs independent unless enabled', async () => {
+      const {tab, otherTab, otherTabRecordEvent} = createTabs(false);
+      await tab.handleEvent({type: 'session-started', userId: 'user-1'});
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(otherTabRecordEvent).not.toHaveBeenCalled();
+      expect(otherTab.hasContent('tp-1')).toBe(false);
+    });
+  });
+
+  describe('attribute updates', () => {
+    const createUpdatingClient = () => {
+      const popup1 = mockContent({id: 'popup-1', triggerPoint: 'tp-1'});
+      const recordEvent = vi.fn(async (event: {type: string}) => event.type === 'session-started'
+        ? {sessionToken: 'token', content: [popup1, mockContent({id: 'popup-2', triggerPoint: 'tp-1'})]}
+        : {content: [popup1, mockContent({id: 'popup-3', triggerPoint: 'tp-2'})]});
+      createClient({organizationCode: 'org', recordEvent});
+      return recordEvent;
+    };
+
+    it('sends updated attributes with the session token and replaces the content', async () => {
+      const recordEvent = createUpdatingClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1', userAttributes: {plan: 'basic'}});
+      const listener = vi.fn();
+      client.subscribe(listener);
+
+      await client.handleEvent({type: 'attributes-updated', userAttributes: {hasSavingsAccount: true}});
+
+      expect(recordEvent).toHaveBeenLastCalledWith({
+        organizationCode: 'org',
+        type: 'attributes-updated',
+        sessionToken: 'token',
+        userId: 'user-1',
+        userAttributes: {hasSavingsAccount: true},
+      });
+      expect(client.getContentCache().map((c) => c.id)).toEqual(['popup-1', 'popup-3']);
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('keeps consumed popups excluded', async () => {
+      createUpdatingClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      document.querySelector('dialog')!.close();
+
+      await client.handleEvent({type: 'attributes-updated', userAttributes: {hasSavingsAccount: true}});
+
+      expect(client.getContentCache().map((c) => c.id)).toEqual(['popup-3']);
+    });
+
+    it('starts later sessions with the updated attributes', async () => {
+      const recordEvent = vi.fn(async (event: {type: string}) => {
+        if (event.type === 'attributes-updated') {
+          throw new WaveCxError('token-expired', 'API request failed with status 401', {status: 401});
+        }
+        return {sessionToken: 'token', content: []};
+      });
+      createClient({organizationCode: 'org', recordEvent});
+      await client.handleEvent({type: 'session-started', userId: 'user-1', userAttributes: {plan: 'basic'}});
+
+      await client.handleEvent({type: 'attributes-updated', userAttributes: {hasSavingsAccount: true}});
+
+      expect(recordEvent).toHaveBeenLastCalledWith(expect.objectContaining({
+        type: 'session-started', userAttributes: {plan: 'basic', hasSavingsAccount: true},
+      }));
+    });
+
+    it('applies updates raised while the session is starting', async () => {
+      const recordEvent = createUpdatingClient();
+      const started = client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'attributes-updated', userAttributes: {hasSavingsAccount: true}});
+      await started;
+
+      expect(recordEvent).toHaveBeenLastCalledWith(expect.objectContaining({type: 'attributes-updated'}));
+      expect(client.getContentCache().map((c) => c.id)).toEqual(['popup-1', 'popup-3']);
+    });
+
+    it('reports failed updates and keeps the current content', async () => {
+      const onSessionError = vi.fn();
+      createClient({
+        organizationCode: 'org',
+        recordEvent: async (event) => {
+          if (event.type === 'attributes-updated') throw new WaveCxError('network', 'API request could not be sent');
+          return {sessionToken: 'token', content: [mockContent({triggerPoint: 'tp-1'})]};
+        },
+        onSessionError,
+      });
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await client.handleEvent({type: 'attributes-updated', userAttributes: {hasSavingsAccount: true}});
+
+      expect(onSessionError).toHaveBeenCalledWith({
+        userId: 'user-1', error: expect.objectContaining({code: 'network'}),
+      });
+      expect(client.hasContent('tp-1')).toBe(true);
+    });
+
+    it('ignores updates without an active session', async () => {
+      const recordEvent = createUpdatingClient();
+
+      await client.handleEvent({type: 'attributes-updated', userAttributes: {hasSavingsAccount: true}});
+
+      expect(recordEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('anonymous sessions', () => {
+    const createAnonymousClient = (options: Partial<CoreConfig> = {}) => {
+      const recordEvent = vi.fn(async (event: {type: string; userId: string}) => ({
+        sessionToken: `token-${event.userId}`,
+        content: [
+          mockContent({id: 'popup-1', triggerPoint: 'tp-1'}),
+          mockContent({id: 'popup-2', triggerPoint: 'tp-2'}),
+        ],
+      }));
+      createClient({organizationCode: 'org', recordEvent, ...options});
+      return recordEvent;
+    };
+
+    it('starts a session identified by a generated device ID', async () => {
+      const recordEvent = createAnonymousClient();
+
+      await client.handleEvent({type: 'anonymous-session-started', userAttributes: {page: 'pricing'}});
+
+      const deviceId = sessions.getDeviceId();
+      expect(recordEvent).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'session-started', userId: deviceId, isAnonymous: true, userAttributes: {page: 'pricing'},
+      }));
+      expect(sessions.readSessionTokenOwner()?.userId).toEqual(deviceId);
+      expect(client.hasContent('tp-1')).toBe(true);
+    });
+
+    it('starts anonymous sessions via the API even when initiateSession is provided', async () => {
+      const initiateSession = vi.fn(async () => ({sessionToken: 'token'}));
+      const recordEvent = createAnonymousClient({initiateSession});
+
+      await client.handleEvent({type: 'anonymous-session-started'});
+
+      expect(initiateSession).not.toHaveBeenCalled();
+      expect(recordEvent).toHaveBeenCalledWith(expect.objectContaining({type: 'session-started', isAnonymous: true}));
+    });
+
+    it('upgrades the anonymous session when the user is identified', async () => {
+      const recordEvent = createAnonymousClient();
+      await client.handleEvent({type: 'anonymous-session-started'});
+      const deviceId = sessions.getDeviceId();
+
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(recordEvent).toHaveBeenLastCalledWith(expect.objectContaining({
+        type: 'session-started', userId: 'user-1', anonymousId: deviceId,
+      }));
+      expect(sessions.readSessionToken()).toEqual('token-user-1');
+      expect(sessions.getDeviceId()).toEqual(deviceId);
+    });
+
+    it('passes the device ID to initiateSession when upgrading', async () => {
+      const initiateSession = vi.fn(async () => ({sessionToken: 'token'}));
+      createAnonymousClient({initiateSession});
+      await client.handleEvent({type: 'anonymous-session-started'});
+
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(initiateSession).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1', anonymousId: sessions.getDeviceId(),
+      }));
+    });
+
+    it('keeps popups consumed while anonymous consumed', async () => {
+      createAnonymousClient();
+      await client.handleEvent({type: 'anonymous-session-started'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      document.querySelector('dialog')!.close();
+
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(client.hasContent('tp-1', 'popup')).toBe(false);
+      expect(client.hasContent('tp-2', 'popup')).toBe(true);
+      expect(client.hasSeen('popup-1')).toBe(true);
+    });
+
+    it('does not merge sessions of identified users', async () => {
+      const recordEvent = createAnonymousClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await client.handleEvent({type: 'session-started', userId: 'user-2'});
+
+      expect(recordEvent).toHaveBeenLastCalledWith(expect.objectContaining({userId: 'user-2', anonymousId: undefined}));
+    });
+  });
+
+  describe('trigger point reporting', () => {
+    const requests: any[] = [];
+    let respond: () => Promise<Response> = async () => HttpResponse.json({content: []});
+    const apiServer = setupServer(
+      http.post('https://api.mock.com/:orgCode/targeted-content-events', async (r) => {
+        const body: any = await r.request.json();
+        requests.push(body);
+        return body.type === 'trigger-point'
+          ? respond()
+          : HttpResponse.json({sessionToken: 'token', content: [mockContent({triggerPoint: 'tp-1'})]});
+      }),
+    );
+
+    beforeAll(() => apiServer.listen());
+    afterAll(() => apiServer.close());
+
+    beforeEach(() => {
+      requests.length = 0;
+      respond = async () => HttpResponse.json({content: []});
+    });
+
+    const triggerPointRequests = () => requests.filter((r) => r.type === 'trigger-point');
+
+    // Reports are sent one at a time, unless a test batches them
+    const createReportingClient = (options: Partial<CoreConfig> = {}) => createClient({
+      organizationCode: 'org',
+      apiBaseUrl: 'https://api.mock.com',
+      telemetryBatch: {maxBatchSize: 1},
+      ...options,
+    });
+
+    it('reports reached trigger points with the session token', async () => {
+      createReportingClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+
+      await vi.waitFor(() => expect(triggerPointRequests()).toHaveLength(1));
+      expect(triggerPointRequests()[0]).toEqual(expect.objectContaining({
+        type: 'trigger-point', triggerPoint: 'tp-2', sessionToken: 'token', userId: 'user-1',
+      }));
+    });
+
+    it('presents popups without waiting for the report', async () => {
+      let resolveReport!: () => void;
+      respond = () => new Promise((resolve) => {
+        resolveReport = () => resolve(HttpResponse.json({content: []}));
+      });
+      createReportingClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      expect(document.querySelector('dialog')?.open).toBe(true);
+      await vi.waitFor(() => expect(triggerPointRequests()).toHaveLength(1));
+      resolveReport();
+    });
+
+    it('ignores failed reports', async () => {
+      respond = async () => HttpResponse.json({message: 'bad request'}, {status: 400});
+      const onSessionError = vi.fn();
+      createReportingClient({
+        retryConfig: {maxAttempts: 1, initialDelay: 0, maxDelay: 0, multiplier: 1},
+        onSessionError,
+      });
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      await vi.waitFor(() => expect(triggerPointRequests()).toHaveLength(1));
+      expect(onSessionError).not.toHaveBeenCalled();
+      expect(client.getError()).toBeUndefined();
+    });
+
+    it('reports trigger points reached while the session is starting once it has started', async () => {
+      createReportingClient();
+      const started = client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await started;
+
+      await vi.waitFor(() => expect(triggerPointRequests()).toHaveLength(1));
+      expect(triggerPointRequests()[0].sessionToken).toEqual('token');
+    });
+
+    it('does not report trigger points without a session', async () => {
+      createReportingClient();
+
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(requests).toEqual([]);
+    });
+
+    it('does not report trigger points when disabled', async () => {
+      createReportingClient({disableTriggerPointReporting: true});
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(triggerPointRequests()).toEqual([]);
+    });
+
+    it('sends trigger points reached within the flush interval together, each once', async () => {
+      createReportingClient({telemetryBatch: {flushInterval: 50}});
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      expect(triggerPointRequests()).toEqual([]);
+
+      await vi.waitFor(() => expect(triggerPointRequests()).toHaveLength(2));
+      expect(triggerPointRequests().map((r) => r.triggerPoint)).toEqual(['tp-1', 'tp-2']);
+    });
+
+    it('sends buffered reports with a beacon when the page is hidden', async () => {
+      const sendBeacon = vi.fn(() => true);
+      Object.defineProperty(navigator, 'sendBeacon', {value: sendBeacon, configurable: true});
+      try {
+        createReportingClient({telemetryBatch: {flushInterval: 60_000}});
+        await client.handleEvent({type: 'session-started', userId: 'user-1'});
+        await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(sendBeacon).toHaveBeenCalledWith('https://api.mock.com/org/targeted-content-events', expect.any(Blob));
+        expect(triggerPointRequests()).toEqual([]);
+      } finally {
+        delete (navigator as { sendBeacon?: unknown }).sendBeacon;
+      }
+    });
+  });
+
+  describe('content telemetry', () => {
+    const createTelemetryClient = (options: Partial<CoreConfig> = {}) => {
+      const sendTelemetry = vi.fn(async () => {});
+      createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          sessionToken: 'token',
+          content: [
+            mockContent({id: 'popup-1', triggerPoint: 'tp-1'}),
+            mockContent({id: 'popup-2', triggerPoint: 'tp-1', priority: -1}),
+            mockContent({id: 'popup-3', triggerPoint: 'tp-2'}),
+          ],
+        }),
+        sendTelemetry,
+        telemetryBatch: {maxBatchSize: 1},
+        ...options,
+      });
+      return sendTelemetry;
+    };
+
+    const sentEvents = (sendTelemetry: ReturnType<typeof createTelemetryClient>) =>
+      sendTelemetry.mock.calls.flatMap((call) => (call as unknown as [{events: unknown[]}])[0].events);
+
+    it('reports content as viewed once its frame has loaded', async () => {
+      const sendTelemetry = createTelemetryClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      expect(sendTelemetry).not.toHaveBeenCalled();
+
+      document.querySelector('iframe')!.dispatchEvent(new Event('load'));
+
+      expect(sendTelemetry).toHaveBeenCalledWith({
+        organizationCode: 'org',
+        sessionToken: 'token',
+        userId: 'user-1',
+        events: [{type: 'content-viewed', contentId: 'popup-1', triggerPoint: 'tp-1', occurredAt: expect.any(String)}],
+      });
+    });
+
+    it('reports dismissals with the dwell time', async () => {
+      vi.useFakeTimers({toFake: ['Date']});
+      try {
+        const sendTelemetry = createTelemetryClient();
+        await client.handleEvent({type: 'session-started', userId: 'user-1'});
+        await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+        vi.advanceTimersByTime(4_000);
+        document.querySelector('dialog')!.close();
+
+        expect(sentEvents(sendTelemetry)).toEqual([{
+          type: 'content-dismissed',
+          contentId: 'popup-1',
+          triggerPoint: 'tp-1',
+          occurredAt: expect.any(String),
+          dwellTime: 4_000,
+          method: 'close-button',
+        }]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('reports how the user dismissed content', async () => {
+      const sendTelemetry = createTelemetryClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      document.querySelector('dialog')!.dispatchEvent(new Event('cancel', {cancelable: true}));
+      const dialog = document.querySelector('dialog')!;
+      dialog.dispatchEvent(new MouseEvent('mousedown', {bubbles: true}));
+
+      expect(sentEvents(sendTelemetry)).toEqual([
+        expect.objectContaining({type: 'content-dismissed', contentId: 'popup-1', method: 'escape'}),
+        expect.objectContaining({type: 'content-dismissed', contentId: 'popup-2', method: 'backdrop'}),
+      ]);
+    });
+
+    it('reports content replaced by another trigger point as superseded', async () => {
+      const sendTelemetry = createTelemetryClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+
+      expect(sentEvents(sendTelemetry)).toEqual([
+        expect.objectContaining({type: 'content-dismissed', contentId: 'popup-1', method: 'superseded'}),
+      ]);
+    });
+
+    it('reports content open when the session ends', async () => {
+      const sendTelemetry = createTelemetryClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      await client.handleEvent({type: 'session-ended'});
+
+      expect(sendTelemetry).toHaveBeenCalledWith(expect.objectContaining({
+        sessionToken: 'token',
+        events: [expect.objectContaining({type: 'content-dismissed', contentId: 'popup-1', method: 'session-end'})],
+      }));
+    });
+
+    it('ignores failures to send telemetry', async () => {
+      const sendTelemetry = vi.fn(async () => { throw new WaveCxError('network', 'API request could not be sent'); });
+      createTelemetryClient({
+        sendTelemetry,
+        retryConfig: {maxAttempts: 1, initialDelay: 0, maxDelay: 0, multiplier: 1},
+      });
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+
+      document.querySelector('dialog')!.close();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sendTelemetry).toHaveBeenCalledTimes(1);
+      expect(client.getError()).toBeUndefined();
+      expect(client.getIsContentLoading()).toBe(false);
+    });
+
+    it('sends no telemetry unless a sender is configured', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+      createTelemetryClient({sendTelemetry: undefined});
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+
+      document.querySelector('iframe')!.dispatchEvent(new Event('load'));
+      document.querySelector('dialog')!.close();
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      fetchSpy.mockRestore();
+    });
+
+    it('sends telemetry to the telemetry endpoint of the API when enabled', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, {status: 204}));
+      createTelemetryClient({sendTelemetry: true, apiBaseUrl: 'https://api.mock.com'});
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-2'});
+
+      document.querySelector('iframe')!.dispatchEvent(new Event('load'));
+
+      await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledWith(
+        'https://api.mock.com/org/targeted-content-telemetry',
+        expect.objectContaining({method: 'POST'}),
+      ));
+      fetchSpy.mockRestore();
+    });
+
+  });
+
+  describe('offline outbox', () => {
+    const createOutboxClient = (storedEntries: OutboxEntry[] = []) => {
+      const sendTelemetry = vi.fn(async () => {});
+      let entries = storedEntries;
+      const storage: OutboxStorageAdapter = {
+        read: () => entries,
+        write: (_key, value) => {
+          entries = value;
+        },
+      };
+      createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({
+          sessionToken: 'token',
+          content: [mockContent({id: 'popup-1', triggerPoint: 'tp-1'})],
+        }),
+        sendTelemetry,
+        telemetryBatch: {maxBatchSize: 1},
+        offlineOutbox: {storage},
+        // Keeps trigger point reports out of the outbox, to look at content telemetry only
+        disableTriggerPointReporting: true,
+      });
+      return {sendTelemetry, getEntries: () => entries};
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('keeps events raised while offline and sends them once back online', async () => {
+      const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const {sendTelemetry, getEntries} = createOutboxClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      document.querySelector('iframe')!.dispatchEvent(new Event('load'));
+      document.querySelector('dialog')!.close();
+
+      await vi.waitFor(() => expect(getEntries()).toHaveLength(2));
+      expect(sendTelemetry).not.toHaveBeenCalled();
+
+      onLine.mockReturnValue(true);
+      window.dispatchEvent(new Event('online'));
+
+      await vi.waitFor(() => expect(getEntries()).toEqual([]));
+      const sentBatches = sendTelemetry.mock.calls.map((call) => (call as unknown as [TelemetryBatch])[0]);
+      expect(sentBatches.map((batch) => batch.events.map((event) => event.type)))
+        .toEqual([['content-viewed'], ['content-dismissed']]);
+      expect(sentBatches[0]).toEqual(expect.objectContaining({sessionToken: 'token', userId: 'user-1'}));
+    });
+
+    it('sends kept events once the next session start succeeds', async () => {
+      const batch = {
+        organizationCode: 'org',
+        sessionToken: 'old-token',
+        userId: 'user-1',
+        events: [
+          {
+            type: 'content-viewed' as const,
+            contentId: 'popup-1',
+            triggerPoint: 'tp-1',
+            occurredAt: '2026-01-01T00:00:00.000Z',
+          },
+        ],
+      };
+      const {sendTelemetry, getEntries} = createOutboxClient([{batch, storedAt: Date.now()}]);
+      expect(sendTelemetry).not.toHaveBeenCalled();
+
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      await vi.waitFor(() => expect(sendTelemetry).toHaveBeenCalledWith(batch));
+      await vi.waitFor(() => expect(getEntries()).toEqual([]));
+    });
+
+    it('does not replay kept events while offline', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const batch = {organizationCode: 'org', sessionToken: 'old-token', userId: 'user-1', events: []};
+      const {sendTelemetry} = createOutboxClient([{batch, storedAt: Date.now()}]);
+
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(sendTelemetry).not.toHaveBeenCalled();
+    });
+
+    const createReportingOutboxClient = (failReports = false) => {
+      let entries: OutboxEntry[] = [];
+      const recordEvent = vi.fn(async (options: {type: string}) => {
+        if (failReports && options.type === 'trigger-point') {
+          throw new WaveCxError('network', 'API request could not be sent');
+        }
+        return {sessionToken: 'token', content: [mockContent({id: 'popup-1', triggerPoint: 'tp-1'})]};
+      });
+      createClient({
+        organizationCode: 'org',
+        recordEvent,
+        telemetryBatch: {maxBatchSize: 1},
+        retryConfig: {maxAttempts: 1, initialDelay: 0, maxDelay: 0, multiplier: 1},
+        offlineOutbox: {
+          storage: {
+            read: () => entries,
+            write: (_key, value) => {
+              entries = value;
+            },
+          },
+        },
+      });
+      const reports = () => recordEvent.mock.calls
+        .map(([options]) => options)
+        .filter((options) => options.type === 'trigger-point');
+      return {reports, getEntries: () => entries};
+    };
+
+    it('keeps trigger point reports raised while offline and sends them through recordEvent once back online',
+      async () => {
+        const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        const {reports, getEntries} = createReportingOutboxClient();
+        await client.handleEvent({type: 'session-started', userId: 'user-1'});
+        await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+        await vi.waitFor(() => expect(getEntries()).toHaveLength(1));
+        expect(reports()).toEqual([]);
+
+        onLine.mockReturnValue(true);
+        window.dispatchEvent(new Event('online'));
+
+        await vi.waitFor(() => expect(getEntries()).toEqual([]));
+        expect(reports()).toEqual([{
+          organizationCode: 'org', type: 'trigger-point', sessionToken: 'token', triggerPoint: 'tp-1', userId: 'user-1',
+        }]);
+      });
+
+    it('keeps trigger point reports that failed to send', async () => {
+      const {reports, getEntries} = createReportingOutboxClient(true);
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+
+      await vi.waitFor(() => expect(getEntries()).toHaveLength(1));
+      expect(reports()).toHaveLength(1);
+      expect(getEntries()[0].batch.events).toEqual([
+        {type: 'trigger-point', triggerPoint: 'tp-1', occurredAt: expect.any(String)},
+      ]);
+    });
+
+    it('drops kept events once the session ends, so they are not sent during the next session', async () => {
+      const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const {sendTelemetry, getEntries} = createOutboxClient();
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      document.querySelector('iframe')!.dispatchEvent(new Event('load'));
+      await vi.waitFor(() => expect(getEntries()).toHaveLength(1));
+
+      await client.handleEvent({type: 'session-ended'});
+
+      await vi.waitFor(() => expect(getEntries()).toEqual([]));
+      onLine.mockReturnValue(true);
+      await client.handleEvent({type: 'session-started', userId: 'user-2'});
+      window.dispatchEvent(new Event('online'));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(getEntries()).toEqual([]);
+      expect(sendTelemetry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejected session tokens', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({toFake: ['Date', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval']});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    // The first session's token is rejected by every later request, so its session is replaced
+    const createRejectingClient = (config: Partial<CoreConfig> = {}) => {
+      let sessionsStarted = 0;
+      createClient({
+        organizationCode: 'org',
+        recordEvent: async (options) => {
+          if (options.type === 'session-started') {
+            sessionsStarted++;
+            return {
+              sessionToken: `token-${sessionsStarted}`,
+              expiresIn: 120,
+              content: [mockContent({id: 'popup-1', triggerPoint: 'tp-1'})],
+            };
+          }
+          if (options.sessionToken === 'token-1') {
+            throw new WaveCxError('token-expired', 'API request failed with status 401', {status: 401});
+          }
+          return {content: [mockContent({id: 'popup-1', triggerPoint: 'tp-1'})]};
+        },
+        popupPolicy: {maxPopupsPerSession: 1},
+        ...config,
+      });
+      return {getSessionsStarted: () => sessionsStarted};
+    };
+
+    const consumePopup = async () => {
+      await client.handleEvent({type: 'session-started', userId: 'user-1'});
+      await client.handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      document.querySelector('dialog')!.close();
+    };
+
+    it('keeps consumed popups when a refresh replaces the session', async () => {
+      const {getSessionsStarted} = createRejectingClient({contentRefresh: {interval: 30_000}});
+      await consumePopup();
+
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(getSessionsStarted()).toBe(2);
+      expect(sessions.readSessionToken()).toBe('token-2');
+      expect(sessions.readConsumedContentIds()).toEqual(['popup-1']);
+      expect(sessions.readPopupHistory().count).toBe(1);
+      expect(client.hasContent('tp-1', 'popup')).toBe(false);
+    });
+
+    it('keeps consumed popups when an attribute update replaces the session', async () => {
+      const {getSessionsStarted} = createRejectingClient();
+      await consumePopup();
+
+      await client.handleEvent({type: 'attributes-updated', userAttributes: {plan: 'pro'}});
+
+      expect(getSessionsStarted()).toBe(2);
+      expect(sessions.readConsumedContentIds()).toEqual(['popup-1']);
+      expect(client.hasContent('tp-1', 'popup')).toBe(false);
+    });
+
+    it('keeps consumed popups when a renewal replaces the session', async () => {
+      const {getSessionsStarted} = createRejectingClient();
+      await consumePopup();
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(getSessionsStarted()).toBe(2);
+      expect(sessions.readConsumedContentIds()).toEqual(['popup-1']);
+      expect(client.hasContent('tp-1', 'popup')).toBe(false);
+    });
+  });
+
+  describe('client isolation', () => {
+    it('keeps content caches independent between clients', async () => {
+      const first = createWaveCxClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [mockContent({triggerPoint: 'tp-1'})]}),
+      });
+      const second = createWaveCxClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [mockContent({triggerPoint: 'tp-2'})]}),
+      });
+
+      await first.handleEvent({type: 'session-started', userId: 'user-1'});
+      sessions.clearSessionToken();
+      await second.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(first.hasContent('tp-1')).toBe(true);
+      expect(first.hasContent('tp-2')).toBe(false);
+      expect(second.hasContent('tp-1')).toBe(false);
+      expect(second.hasContent('tp-2')).toBe(true);
+
+      first.destroy();
+      second.destroy();
+    });
+
+    it('only notifies listeners of the client whose state changed', async () => {
+      const first = createWaveCxClient({organizationCode: 'org', recordEvent: async () => ({content: []})});
+      const second = createWaveCxClient({organizationCode: 'org', recordEvent: async () => ({content: []})});
+      const listener = vi.fn();
+      second.subscribe(listener);
+
+      await first.handleEvent({type: 'session-started', userId: 'user-1'});
+
+      expect(listener).not.toHaveBeenCalled();
+      first.destroy();
+      second.destroy();
+    });
+
+    it('removes the modal from the DOM when destroyed', async () => {
+      const {handleEvent, destroy} = createClient({
+        organizationCode: 'org',
+        recordEvent: async () => ({content: [mockContent({triggerPoint: 'tp-1'})]}),
+      });
+
+      await handleEvent({type: 'session-started', userId: 'user-1'});
+      await handleEvent({type: 'trigger-point', triggerPoint: 'tp-1'});
+      expect(document.querySelector('dialog')).not.toBeNull();
+
+      destroy();
+      expect(document.querySelector('dialog')).toBeNull();
     });
   });
 
   describe('URL validation', () => {
     it('rejects content with javascript: URLs', async () => {
-      const handleEvent = createHandleEvent({
+      const {handleEvent} = createClient({
         organizationCode: 'org',
         recordEvent: async () => ({
           content: [mockContent({triggerPoint: 'tp-1', viewUrl: 'javascript:alert(1)'})],
@@ -1,9 +1,19 @@
 import {
+  composeFireTargetedContentEventOnUnloadViaApi,
   composeFireTargetedContentEventViaApi,
+  getContentId,
+  getNextScheduleChange,
+  isWithinSchedule,
+  normalizeContent,
   type FireTargetedContentEvent,
   type TargetedContent,
 } from './targeted-content';
-import {clearSessionToken, type InitiateSession, readSessionToken, storeSessionToken} from './sessions';
+import {
+  createSessionManager,
+  type InitiateSession,
+  type SessionStore,
+  type SessionTokenOwner,
+} from './sessions';
 import {retryWithBackoff, defaultRetryConfig, type RetryConfig} from './retry';
 import {
   type MockModeConfig,
@@ -11,44 +21,252 @@ import {
   getInitialMockContent,
   simulateNetworkDelay,
 } from './mock-mode';
+import {createDebugLogger} from './debug';
+import {type WaveCxError, isSessionTokenRejection, toWaveCxError} from './errors';
+import {createModalHost, type ModalHost} from './modal';
+import {isBrowser} from './environment';
+import {
+  checkPopupPolicy,
+  getRemainingPopupAllowance,
+  recordPopupShown,
+  type PopupPolicy,
+  type PopupSuppressionReason,
+} from './popup-policy';
+import {startContentRefresh, type ContentRefreshConfig} from './content-refresh';
+import {
+  composeServerSentEventsTransport,
+  openContentStream,
+  type ContentStreamMessage,
+  type ContentStreamTransport,
+} from './content-stream';
+import {
+  createLocalStorageContentAdapter,
+  defaultOfflineContentMaxAge,
+  getContentStorageKey,
+  type OfflineContentConfig,
+} from './content-store';
+import {openTabSyncChannel, type TabSyncChannel, type TabSyncMessage} from './tab-sync';
+import {
+  composeSendTelemetryOnUnloadViaApi,
+  composeSendTelemetryViaApi,
+  type TelemetryBatch,
+  type TelemetryEvent,
+  type DismissalMethod,
+  type SendTelemetry,
+} from './telemetry';
+import {createTelemetryBatcher, type TelemetryBatchConfig, type TelemetryBatcher} from './telemetry-batch';
+import {
+  createIndexedDbOutboxAdapter,
+  createOutbox,
+  getOutboxStorageKey,
+  type OfflineOutboxConfig,
+} from './outbox';
 
 export type Event =
   | { type: 'session-started'; userId: string; userIdVerification?: string; userAttributes?: object }
+  | { type: 'anonymous-session-started'; userAttributes?: object }
   | { type: 'session-ended' }
-  | { type: 'trigger-point'; triggerPoint: string; onContentDismissed?: () => void }
-  | { type: 'user-triggered-content'; triggerPoint?: string; onContentDismissed?: () => void };
+  | { type: 'attributes-updated'; userAttributes: object }
+  | { type: 'trigger-point'; triggerPoint: string; onContentDismissed?: DismissCallback }
+  | { type: 'user-triggered-content'; triggerPoint?: string; onContentDismissed?: DismissCallback };
+
+/**
+ * Invoked when content is dismissed, with the ID of the dismissed content if any was shown
+ */
+export type DismissCallback = (contentId?: string) => void;
 
 export type EventHandler = (event: Event) => void | Promise<void>;
 
+type SessionStartedEvent = Extract<Event, { type: 'session-started' }> & {
+  /**
+   * Anonymous sessions are identified by the device ID in place of a user ID
+   */
+  isAnonymous?: boolean;
+};
+
 export type ContentFetchStrategy =
   | 'session-start'
   | 'trigger-point';
 
-export type CoreConfig = {
+export type ContentDetails = {
+  contentId: string;
+  content: TargetedContent;
+  triggerPoint: string;
+};
+
+export type LifecycleCallbacks = {
+  /**
+   * Invoked when content is presented in a modal
+   */
+  onContentShown?: (details: ContentDetails) => void;
+  /**
+   * Invoked when presented content is closed, by the user or by the SDK (e.g. another trigger point firing)
+   */
+  onContentDismissed?: (details: ContentDetails) => void;
+  /**
+   * Invoked when content is not presented because it failed validation
+   */
+  onContentRejected?: (details: ContentDetails & { reason: 'invalid-url' }) => void;
+  /**
+   * Invoked when popup content is held back by the popup policy; it stays available for later trigger points
+   */
+  onContentSuppressed?: (details: ContentDetails & { reason: PopupSuppressionReason }) => void;
+  /**
+   * Invoked when the frame of presented content has finished loading
+   */
+  onIframeLoaded?: (details: ContentDetails) => void;
+  /**
+   * Invoked when a session has started and its content is available
+   */
+  onSessionStarted?: (details: { userId: string; content: TargetedContent[] }) => void;
+  /**
+   * Invoked when a session could not be started, refreshed or updated
+   */
+  onSessionError?: (details: { userId: string; error: WaveCxError }) => void;
+};
+
+export type CoreConfig = LifecycleCallbacks & {
   organizationCode: string;
   apiBaseUrl?: string;
   recordEvent?: FireTargetedContentEvent;
   initiateSession?: InitiateSession;
+  /**
+   * Where session state is kept; keys are namespaced by organization code (default: sessionStorage)
+   */
+  sessionStore?: SessionStore;
   disablePopupContent?: boolean;
+  /**
+   * Stops reporting reached trigger points to the API for analytics
+   */
+  disableTriggerPointReporting?: boolean;
+  /**
+   * Sends batches of content telemetry events (views and dismissals); off when omitted.
+   * `true` sends them to the telemetry endpoint of `apiBaseUrl`.
+   */
+  sendTelemetry?: boolean | SendTelemetry;
+  /**
+   * When buffered telemetry events and trigger point reports are sent (default: 20 events or after 5 seconds)
+   */
+  telemetryBatch?: TelemetryBatchConfig;
+  /**
+   * Keeps trigger point reports and telemetry events that could not be sent (e.g. while offline) to send them later
+   */
+  offlineOutbox?: OfflineOutboxConfig;
   debugMode?: boolean;
   retryConfig?: RetryConfig;
   mockModeConfig?: MockModeConfig;
+  /**
+   * Milliseconds before the session token expires at which it is renewed (default: 60000),
+   * at most half of the token's lifetime
+   */
+  tokenRenewalLeadTime?: number;
+  /**
+   * Limits how often popup content is presented during a session
+   */
+  popupPolicy?: PopupPolicy;
+  /**
+   * Refreshes content in the background while a session is active; off when omitted
+   */
+  contentRefresh?: ContentRefreshConfig;
+  /**
+   * Pushes content changes for the session once a session token is obtained; off when omitted.
+   * `true` receives Server-Sent Events from `apiBaseUrl`.
+   */
+  contentStream?: boolean | ContentStreamTransport;
+  /**
+   * Shares session starts and ends, and popup consumption, with other tabs of the same origin
+   */
+  crossTabSync?: boolean;
+  /**
+   * Persists the last content fetched for each user, serving it at session start while fresh content is fetched.
+   * Off when omitted.
+   */
+  offlineContent?: OfflineContentConfig;
+  /**
+   * Content fetched ahead of time (e.g. during server rendering).
+   * Seeds the content cache, and the next session start uses it instead of calling the API.
+   */
+  initialContent?: TargetedContent[];
+  /**
+   * Session token obtained alongside `initialContent`; stored as the current session token.
+   */
+  initialSessionToken?: string;
+  /**
+   * Lifetime of `initialSessionToken` in seconds (default: 3600)
+   */
+  initialSessionExpiresIn?: number;
+  /**
+   * User `initialContent` and `initialSessionToken` were fetched for.
+   * A session started for another user ignores them and fetches its own content.
+   */
+  initialUserId?: string;
 };
 
-type DebugLog = (message: string, data?: any) => void;
+export type Listener = () => void;
 
-const createDebugLogger = (debugMode: boolean): DebugLog => {
-  return (message: string, data?: any) => {
-    if (debugMode) {
-      if (data !== undefined) {
-        console.log(`[WaveCx] ${message}`, data);
-      } else {
-        console.log(`[WaveCx] ${message}`);
-      }
-    }
-  };
+export type WaveCxClient = {
+  handleEvent: EventHandler;
+  /**
+   * Registers a listener invoked whenever client state changes.
+   *
+   * @returns a function removing the listener
+   */
+  subscribe: (listener: Listener) => () => void;
+  getContentCache: () => TargetedContent[];
+  getIsContentLoading: () => boolean;
+  getActiveTriggerPoint: () => string | undefined;
+  /**
+   * The error from the most recent failed session start, cleared when a session starts successfully or ends
+   */
+  getError: () => WaveCxError | undefined;
+  /**
+   * Retries the most recent failed session start
+   */
+  retry: () => Promise<void>;
+  /**
+   * Milliseconds until the session token expires, or undefined when there is no session token.
+   * The token is renewed shortly before it expires.
+   */
+  getSessionTokenLifetime: () => number | undefined;
+  hasContent: (triggerPoint: string, presentationType?: 'popup' | 'button-triggered') => boolean;
+  /**
+   * @deprecated Use `hasContent(triggerPoint, 'popup')` instead
+   */
+  hasPopupContentForTriggerPoint: (triggerPoint: string) => boolean;
+  /**
+   * Presents the content with the given ID, regardless of trigger point.
+   * Popup content shown this way is consumed.
+   *
+   * @returns true if the content was found and presented
+   */
+  showContent: (contentId: string, onContentDismissed?: DismissCallback) => boolean;
+  /**
+   * Whether the content with the given ID has been presented during the current session
+   */
+  hasSeen: (contentId: string) => boolean;
+  /**
+   * Opens the client's cross-tab channel and window listeners, if not open already.
+   * Clients from `createWaveCxClient` are connected on creation.
+   * Connecting the first client over released state resumes its session's timers.
+   */
+  connect: () => void;
+  /**
+   * Releases what this client holds on its own: its cross-tab channel, window listeners and telemetry batcher.
+   * State shared with other clients (content, listeners, modal) is left untouched; once no client over it
+   * is connected, its session's timers (token renewal, content refresh and stream, scheduling) are stopped.
+   */
+  release: () => void;
+  /**
+   * Removes any open modal from the DOM and drops all listeners and queued events.
+   * Dismissal callbacks are not invoked.
+   */
+  destroy: () => void;
 };
 
+// Content with a higher priority is presented first
+const byPriority = (a: TargetedContent, b: TargetedContent): number =>
+  (b.priority ?? 0) - (a.priority ?? 0);
+
 const isValidContentUrl = (url: string, mockModeEnabled: boolean): boolean => {
   try {
     const parsed = new URL(url);
@@ -61,201 +279,380 @@ const isValidContentUrl = (url: string, mockModeEnabled: boolean): boolean => {
   }
 };
 
-// --- Shared state ---
+// Longest delay supported by setTimeout (about 24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
-let contentCache: TargetedContent[] = [];
-let isContentLoading = false;
-let eventQueue: Event[] = [];
-let activeTriggerPoint: string | undefined = undefined;
+// --- Client state ---
 
-type Listener = () => void;
-const listeners = new Set<Listener>();
+type CoreState = {
+  contentCache: TargetedContent[];
+  isContentLoading: boolean;
+  eventQueue: Event[];
+  activeTriggerPoint: string | undefined;
+  currentDismissCallback: DismissCallback | undefined;
+  displayedContent: (ContentDetails & { shownAt: number; onDismissed: () => void }) | undefined;
+  seenContentIds: Set<string>;
+  popupSequence: TargetedContent[];
+  scheduleTimer: ReturnType<typeof setTimeout> | undefined;
+  sessionEvent: SessionStartedEvent | undefined;
+  tokenRenewalTimer: ReturnType<typeof setTimeout> | undefined;
+  stopContentRefresh: (() => void) | undefined;
+  closeContentStream: (() => void) | undefined;
+  offlineContentKey: string | undefined;
+  isRevalidating: boolean;
+  hasInitialContent: boolean;
+  lastError: WaveCxError | undefined;
+  failedSessionEvent: SessionStartedEvent | undefined;
+  connectedClients: number;
+  listeners: Set<Listener>;
+  modalHost: ModalHost;
+};
 
-function notify() {
-  listeners.forEach(l => l());
-}
+const createCoreState = (): CoreState => ({
+  contentCache: [],
+  isContentLoading: false,
+  eventQueue: [],
+  activeTriggerPoint: undefined,
+  currentDismissCallback: undefined,
+  displayedContent: undefined,
+  seenContentIds: new Set(),
+  popupSequence: [],
+  scheduleTimer: undefined,
+  sessionEvent: undefined,
+  tokenRenewalTimer: undefined,
+  stopContentRefresh: undefined,
+  closeContentStream: undefined,
+  offlineContentKey: undefined,
+  isRevalidating: false,
+  hasInitialContent: false,
+  lastError: undefined,
+  failedSessionEvent: undefined,
+  connectedClients: 0,
+  listeners: new Set(),
+  modalHost: createModalHost(),
+});
 
-export function subscribe(listener: Listener): () => void {
-  listeners.add(listener);
-  return () => { listeners.delete(listener); };
-}
+// State shared by every client created through `createSharedWaveCxClient`.
+// Providers without a `client` prop use it, so they keep sharing content and loading state.
+const sharedState = createCoreState();
 
-export function getContentCache(): TargetedContent[] {
-  return contentCache;
-}
+// --- Event handling ---
 
-export function getIsContentLoading(): boolean {
-  return isContentLoading;
-}
+const composeWaveCxClient = (config: CoreConfig, state: CoreState): WaveCxClient => {
+  const debugLog = createDebugLogger(config.debugMode ?? false);
+  const sessions = createSessionManager({organizationCode: config.organizationCode, store: config.sessionStore});
+  const mockModeConfig = config.mockModeConfig ?? defaultMockModeConfig;
+  const retryConfig = config.retryConfig ?? defaultRetryConfig;
+  const popupPolicy = config.popupPolicy ?? {};
+  const tokenRenewalLeadTime = config.tokenRenewalLeadTime ?? 60_000;
+  const apiBaseUrl = config.apiBaseUrl ?? 'https://api.wavecx.com';
+  const contentStreamTransport = config.contentStream === true
+    ? composeServerSentEventsTransport({apiBaseUrl})
+    : config.contentStream || undefined;
+  const offlineContentStorage = config.offlineContent
+    ? config.offlineContent.storage ?? createLocalStorageContentAdapter()
+    : undefined;
 
-export function hasContent(triggerPoint: string, presentationType?: 'popup' | 'button-triggered'): boolean {
-  return contentCache.some((c) =>
-    c.triggerPoint === triggerPoint
-    && (presentationType === undefined || c.presentationType === presentationType)
-  );
-}
+  const recordEvent: FireTargetedContentEvent = config.recordEvent
+    ?? composeFireTargetedContentEventViaApi({
+      apiBaseUrl,
+      // A rejected session token stays rejected, so only transient failures are retried
+      retryFn: (fn) => retryWithBackoff(fn, retryConfig, debugLog, (error) => !isSessionTokenRejection(error)),
+    });
 
-export function hasPopupContentForTriggerPoint(triggerPoint: string): boolean {
-  return hasContent(triggerPoint, 'popup');
-}
+  const sendTelemetry = config.sendTelemetry === true
+    ? composeSendTelemetryViaApi({apiBaseUrl})
+    : config.sendTelemetry || undefined;
+  const outbox = config.offlineOutbox && isBrowser()
+    ? createOutbox({
+      key: getOutboxStorageKey(config.organizationCode),
+      config: config.offlineOutbox,
+      storage: config.offlineOutbox.storage ?? createIndexedDbOutboxAdapter(),
+      debugLog,
+    })
+    : undefined;
 
-export function getActiveTriggerPoint(): string | undefined {
-  return activeTriggerPoint;
-}
+  // Batches of a session that has since ended are dropped, so they aren't sent during a later session
+  const keepUndelivered = outbox
+    ? (batch: TelemetryBatch) => { if (batch.userId === state.sessionEvent?.userId) void outbox.add(batch); }
+    : undefined;
 
-// --- Modal rendering ---
+  // Created on first use, so clients that never send telemetry don't listen for the page being hidden
+  let telemetryBatcher: TelemetryBatcher | undefined = undefined;
+  const getTelemetryBatcher = (send: SendTelemetry): TelemetryBatcher => {
+    telemetryBatcher ??= createTelemetryBatcher({
+      send,
+      sendOnUnload: config.sendTelemetry === true ? composeSendTelemetryOnUnloadViaApi({apiBaseUrl}) : undefined,
+      onUndelivered: keepUndelivered,
+      config: config.telemetryBatch,
+      retryConfig,
+      debugLog,
+    });
+    return telemetryBatcher;
+  };
 
-let modalContainer: HTMLElement | null = null;
-let currentDismissCallback: (() => void) | undefined = undefined;
-let cleanupOutsideClickListener: (() => void) | undefined = undefined;
+  // Batches are retried by their batcher, so trigger point reports to the API aren't retried again
+  const reportEvent: FireTargetedContentEvent = config.recordEvent
+    ?? composeFireTargetedContentEventViaApi({apiBaseUrl, retryFn: (fn) => fn()});
 
-function getModalContainer(): HTMLElement {
-  if (!modalContainer) {
-    modalContainer = document.createElement('div');
-    modalContainer.setAttribute('data-wavecx-modal-container', '');
-    document.body.appendChild(modalContainer);
-  }
-  return modalContainer;
-}
+  // Funnels only need to know a trigger point was reached, so repeats within a batch are reported once
+  const getReachedTriggerPoints = (batch: TelemetryBatch): string[] => [...new Set(
+    batch.events.flatMap((event) => event.type === 'trigger-point' ? [event.triggerPoint] : []),
+  )];
 
-function renderModal(content: TargetedContent, debugLog: DebugLog) {
-  const container = getModalContainer();
-  container.innerHTML = '';
+  const toTriggerPointEvent = (batch: TelemetryBatch, triggerPoint: string) => ({
+    organizationCode: batch.organizationCode,
+    type: 'trigger-point' as const,
+    sessionToken: batch.sessionToken,
+    triggerPoint,
+    userId: batch.userId,
+  });
 
-  const dialog = document.createElement('dialog');
-  dialog.className = '__wcx_modal';
-  if (content.webModal?.backdropFilterCss) {
-    dialog.style.setProperty('--backdrop-filter', content.webModal.backdropFilterCss);
-  }
+  // Reached trigger points are sent as `trigger-point` events through `recordEvent`
+  const sendTriggerPointReports: SendTelemetry = async (batch) => {
+    for (const triggerPoint of getReachedTriggerPoints(batch)) {
+      await reportEvent(toTriggerPointEvent(batch, triggerPoint));
+    }
+  };
 
-  const modalContent = document.createElement('div');
-  modalContent.className = '__wcx_modalContent';
-  if (content.webModal) {
-    if (content.webModal.opacity !== undefined) modalContent.style.opacity = String(content.webModal.opacity);
-    if (content.webModal.shadowCss) modalContent.style.boxShadow = content.webModal.shadowCss;
-    if (content.webModal.borderCss) modalContent.style.border = content.webModal.borderCss;
-    if (content.webModal.borderRadiusCss) modalContent.style.borderRadius = content.webModal.borderRadiusCss;
-    if (content.webModal.heightCss) modalContent.style.height = content.webModal.heightCss;
-    if (content.webModal.widthCss) modalContent.style.width = content.webModal.widthCss;
-    if (content.webModal.marginCss) modalContent.style.margin = content.webModal.marginCss;
-  }
+  const sendTriggerPointReportsOnUnload = (batch: TelemetryBatch) => {
+    const fireEventOnUnload = composeFireTargetedContentEventOnUnloadViaApi({apiBaseUrl});
+    for (const triggerPoint of getReachedTriggerPoints(batch)) {
+      fireEventOnUnload(toTriggerPointEvent(batch, triggerPoint));
+    }
+  };
 
-  const form = document.createElement('form');
-  form.method = 'dialog';
-  form.addEventListener('submit', (e) => {
-    e.preventDefault();
-    dialog.close();
-  });
+  let triggerPointBatcher: TelemetryBatcher | undefined = undefined;
+  const getTriggerPointBatcher = (): TelemetryBatcher => {
+    triggerPointBatcher ??= createTelemetryBatcher({
+      send: sendTriggerPointReports,
+      // A custom `recordEvent` can't be handed to a beacon, so its reports are sent as usual instead
+      sendOnUnload: config.recordEvent ? undefined : sendTriggerPointReportsOnUnload,
+      onUndelivered: keepUndelivered,
+      config: config.telemetryBatch,
+      retryConfig,
+      debugLog,
+    });
+    return triggerPointBatcher;
+  };
+
+  // Kept batches hold either trigger point reports or content telemetry, each sent the way it was raised.
+  // Content telemetry kept while it was enabled is dropped once it no longer is.
+  const sendKeptBatch: SendTelemetry = async (batch) => {
+    if (batch.events.some((event) => event.type === 'trigger-point')) {
+      await sendTriggerPointReports(batch);
+    } else if (sendTelemetry) {
+      await sendTelemetry(batch);
+    }
+  };
 
-  const closeButton = document.createElement('button');
-  closeButton.className = '__wcx_modalCloseButton';
-  closeButton.title = 'Close';
-  if (content.webModal?.closeButton.style === 'text') {
-    closeButton.className += ' __wcx_textButton';
-    closeButton.textContent = content.webModal.closeButton.label;
+  // Events kept while offline are sent once the API is known to be reachable again
+  const replayOutbox = () => {
+    if (!outbox || navigator.onLine === false) return;
+    void outbox.replay(sendKeptBatch);
+  };
+
+
+  // Popup content consumed earlier in the session (e.g. before a page reload) isn't presented again
+  const withoutConsumedPopups = (content: TargetedContent[]): TargetedContent[] => {
+    const consumedIds = sessions.readConsumedContentIds();
+    return content.filter((c) => c.presentationType !== 'popup' || !consumedIds.includes(getContentId(c)));
+  };
+
+  const notify = () => {
+    state.listeners.forEach(l => l());
+  };
+
+  // Opened when the client is connected, when cross-tab sync is enabled
+  let tabSync: TabSyncChannel | undefined = undefined;
+  let isConnected = false;
+
+  const isAvailable = (content: TargetedContent): boolean => isWithinSchedule(content, Date.now());
+
+  const clearScheduleTimer = () => {
+    clearTimeout(state.scheduleTimer);
+    state.scheduleTimer = undefined;
+  };
+
+  // Notifies listeners whenever a scheduling window of cached content opens or closes
+  const scheduleWindowChange = () => {
+    clearScheduleTimer();
+    // Timers would keep server processes alive
+    if (!isBrowser()) return;
+
+    const now = Date.now();
+    const nextChange = getNextScheduleChange(state.contentCache, now);
+    if (nextChange === undefined) return;
+
+    state.scheduleTimer = setTimeout(() => {
+      if (Date.now() >= nextChange) {
+        debugLog('Content scheduling window opened or closed');
+        // A new cache reference lets snapshot-based consumers (e.g. the React provider) re-render
+        state.contentCache = [...state.contentCache];
+        notify();
+      }
+      scheduleWindowChange();
+    }, Math.min(nextChange - now, MAX_TIMER_DELAY));
+  };
+
+  if (config.initialContent) {
+    state.contentCache = withoutConsumedPopups(normalizeContent(config.initialContent));
+    state.hasInitialContent = true;
+    scheduleWindowChange();
+  }
+  if (config.initialSessionToken) {
+    // Without `initialUserId`, the user isn't known until the session starts, when the token is bound to them
+    sessions.storeSessionToken(
+      config.initialSessionToken,
+      config.initialSessionExpiresIn ?? 3600,
+      config.initialUserId,
+    );
   }
-  form.appendChild(closeButton);
-  modalContent.appendChild(form);
-
-  const loadingView = document.createElement('div');
-  loadingView.className = '__wcx_loadingView';
-  const busy = document.createElement('span');
-  busy.className = '__wcx_busy';
-  busy.setAttribute('aria-label', content.loading?.message ?? 'Loading featured content');
-  const bar = document.createElement('span');
-  bar.className = '__wcx_bar';
-  if (content.loading?.size) bar.style.setProperty('--size', content.loading.size);
-  if (content.loading?.color) bar.style.setProperty('--color', content.loading.color);
-  busy.appendChild(bar);
-  loadingView.appendChild(busy);
-  modalContent.appendChild(loadingView);
-
-  const iframe = document.createElement('iframe');
-  iframe.title = 'Featured Content';
-  iframe.src = content.viewUrl;
-  const sandboxPermissions = [
-    'allow-scripts',
-    'allow-same-origin',
-    'allow-forms',
-    'allow-popups',
-    'allow-popups-to-escape-sandbox',
-    'allow-top-navigation-by-user-activation',
-  ].join(' ');
-  iframe.setAttribute('sandbox', sandboxPermissions);
-  iframe.className = '__wcx_webview';
-  iframe.style.display = 'none';
-  iframe.addEventListener('load', () => {
-    debugLog('Content iframe loaded', { viewUrl: content.viewUrl });
-    loadingView.style.display = 'none';
-    iframe.style.display = '';
-  });
-  modalContent.appendChild(iframe);
 
-  dialog.appendChild(modalContent);
+  const subscribe = (listener: Listener): () => void => {
+    state.listeners.add(listener);
+    return () => { state.listeners.delete(listener); };
+  };
 
-  dialog.addEventListener('close', () => {
-    dismissModal();
-  });
+  const hasContent = (triggerPoint: string, presentationType?: 'popup' | 'button-triggered'): boolean =>
+    state.contentCache.some((c) =>
+      c.triggerPoint === triggerPoint
+      && (presentationType === undefined || c.presentationType === presentationType)
+      && isAvailable(c)
+    );
 
-  // Close on outside click
-  const handleOutsideClick = (e: MouseEvent) => {
-    if (e.target === dialog) {
-      dialog.close();
+  const invokeCallback = <K extends keyof LifecycleCallbacks>(
+    name: K,
+    details: Parameters<NonNullable<LifecycleCallbacks[K]>>[0],
+  ) => {
+    try {
+      (config[name] as ((d: typeof details) => void) | undefined)?.(details);
+    } catch (error) {
+      debugLog(`${name} callback failed`, { error });
     }
   };
-  cleanupOutsideClickListener?.();
-  document.addEventListener('mousedown', handleOutsideClick);
-  cleanupOutsideClickListener = () => {
-    document.removeEventListener('mousedown', handleOutsideClick);
+
+  // Telemetry is batched and sent in the background; failures never affect content presentation
+  const recordTelemetry = (event: TelemetryEvent) => {
+    const session = state.sessionEvent;
+    const sessionToken = readActiveSessionToken();
+    if (!sendTelemetry || !session || !sessionToken || mockModeConfig.enabled) return;
+
+    debugLog('Recording telemetry event', { event });
+    void getTelemetryBatcher(sendTelemetry).send({
+      organizationCode: config.organizationCode,
+      sessionToken,
+      userId: session.userId,
+      events: [event],
+    });
   };
 
-  const handleCancel = (e: globalThis.Event) => {
-    e.preventDefault();
-    dialog.close();
+  const recordDismissal = (displayed: NonNullable<CoreState['displayedContent']>, method: DismissalMethod) => {
+    recordTelemetry({
+      type: 'content-dismissed',
+      contentId: displayed.contentId,
+      triggerPoint: displayed.triggerPoint,
+      occurredAt: new Date().toISOString(),
+      dwellTime: Date.now() - displayed.shownAt,
+      method,
+    });
   };
-  dialog.addEventListener('cancel', handleCancel);
 
-  container.appendChild(dialog);
+  // Finishes the presented content and any popup sequence it belongs to, invoking its dismissal callbacks
+  const finishDisplayedContent = (method: DismissalMethod) => {
+    state.popupSequence = [];
+    const callback = state.currentDismissCallback;
+    state.currentDismissCallback = undefined;
+    const displayed = state.displayedContent;
+    state.displayedContent = undefined;
+    if (displayed) recordDismissal(displayed, method);
+    callback?.(displayed?.contentId);
+    displayed?.onDismissed();
+  };
 
-  try {
-    dialog.showModal();
-    dialog.focus();
-  } catch (err) {
-    debugLog('Failed to open modal', { error: err });
-  }
-}
+  const dismissModal = (method: DismissalMethod) => {
+    state.modalHost.close();
+    state.activeTriggerPoint = undefined;
+    finishDisplayedContent(method);
+    notify();
+  };
 
-function dismissModal() {
-  cleanupOutsideClickListener?.();
-  cleanupOutsideClickListener = undefined;
-  if (modalContainer) {
-    modalContainer.remove();
-    modalContainer = null;
-  }
-  activeTriggerPoint = undefined;
-  const callback = currentDismissCallback;
-  currentDismissCallback = undefined;
-  callback?.();
-  notify();
-}
+  // Content presented in place of other content (e.g. user-triggered content) dismisses it as superseded;
+  // the modal stays open for the new content
+  const supersedeDisplayedContent = () => {
+    if (state.displayedContent) finishDisplayedContent('superseded');
+  };
 
-// --- Event handling ---
+  const showModal = (content: TargetedContent, triggerPoint: string) => {
+    // Content already presented is replaced
+    if (state.displayedContent) recordDismissal(state.displayedContent, 'superseded');
 
-export function createHandleEvent(config: CoreConfig): EventHandler {
-  const debugLog = createDebugLogger(config.debugMode ?? false);
-  const mockModeConfig = config.mockModeConfig ?? defaultMockModeConfig;
-  const retryConfig = config.retryConfig ?? defaultRetryConfig;
+    const details = {contentId: getContentId(content), content, triggerPoint};
+    state.seenContentIds.add(details.contentId);
+    state.displayedContent = {
+      ...details,
+      shownAt: Date.now(),
+      onDismissed: () => invokeCallback('onContentDismissed', details),
+    };
+    state.modalHost.show(content, {
+      debugLog,
+      onClose: handleModalClosed,
+      onLoad: () => {
+        recordTelemetry({
+          type: 'content-viewed',
+          contentId: details.contentId,
+          triggerPoint,
+          occurredAt: new Date().toISOString(),
+        });
+        invokeCallback('onIframeLoaded', details);
+      },
+    });
+    invokeCallback('onContentShown', details);
+  };
 
-  const recordEvent: FireTargetedContentEvent = config.recordEvent
-    ?? composeFireTargetedContentEventViaApi({
-      apiBaseUrl: config.apiBaseUrl ?? 'https://api.wavecx.com',
-      retryFn: (fn) => retryWithBackoff(fn, retryConfig, debugLog),
+  // Popup content is consumed as it is presented
+  const presentPopup = (content: TargetedContent, triggerPoint: string) => {
+    showModal(content, triggerPoint);
+    state.contentCache = state.contentCache.filter((c) => c !== content);
+    sessions.storeConsumedContentId(getContentId(content));
+    tabSync?.post({type: 'content-consumed', contentId: getContentId(content)});
+    sessions.storePopupHistory(recordPopupShown(sessions.readPopupHistory(), triggerPoint, Date.now()));
+  };
+
+  // Suppressed popup content stays in the cache, so a later trigger point can still present it
+  const suppressPopups = (content: TargetedContent[], triggerPoint: string, reason: PopupSuppressionReason) => {
+    if (content.length === 0) return;
+    debugLog('Popup content suppressed by popup policy', { triggerPoint, reason, count: content.length });
+    for (const c of content) {
+      invokeCallback('onContentSuppressed', {contentId: getContentId(c), content: c, triggerPoint, reason});
+    }
+  };
+
+  // Closing a popup reveals the next one in its sequence; dismissal callbacks
+  // for the trigger point are only invoked once the sequence is finished.
+  const handleModalClosed = (method: DismissalMethod) => {
+    const displayed = state.displayedContent;
+    const [next, ...rest] = state.popupSequence;
+    if (!displayed || !next) {
+      dismissModal(method);
+      return;
+    }
+
+    debugLog('Presenting next popup content in sequence', {
+      triggerPoint: displayed.triggerPoint, remaining: rest.length,
     });
+    state.displayedContent = undefined;
+    recordDismissal(displayed, method);
+    displayed.onDismissed();
+    state.popupSequence = rest;
+    presentPopup(next, displayed.triggerPoint);
+    notify();
+  };
 
-  const processQueuedEvents = async (handleEvent: EventHandler) => {
-    if (eventQueue.length === 0) return;
-    const queue = [...eventQueue];
-    eventQueue = [];
+  const processQueuedEvents = async () => {
+    if (state.eventQueue.length === 0) return;
+    const queue = [...state.eventQueue];
+    state.eventQueue = [];
     debugLog('Processing queued events', { queueLength: queue.length });
     for (const queuedEvent of queue) {
       try {
@@ -266,133 +663,610 @@ export function createHandleEvent(config: CoreConfig): EventHandler {
     }
   };
 
-  const handleEvent: EventHandler = async (event) => {
-    debugLog('handleEvent called', { eventType: event.type });
+  // Tokens of unknown owner (e.g. provided with initial content) are assumed to be for the current user
+  const isIssuedFor = (owner: SessionTokenOwner | null, userId: string): boolean =>
+    !owner || (owner.userId === userId && owner.organizationCode === config.organizationCode);
 
-    if (event.type === 'session-started') {
-      if (isContentLoading) {
-        debugLog('Session start already in progress, skipping');
-        return;
-      }
+  // Tokens are bound to the user they were issued for; one issued for another user is discarded
+  const readSessionTokenFor = (userId: string): string | null => {
+    const sessionToken = sessions.readSessionToken();
+    if (!sessionToken) return null;
 
-      debugLog('Starting session', { userId: event.userId });
-      contentCache = [];
-      notify();
+    const owner = sessions.readSessionTokenOwner();
+    if (isIssuedFor(owner, userId)) {
+      if (!owner) sessions.bindSessionToken(userId);
+      return sessionToken;
+    }
 
-      if (mockModeConfig.enabled) {
-        debugLog('Mock mode enabled - using mock content instead of API call');
-        isContentLoading = true;
-        notify();
-        await simulateNetworkDelay(mockModeConfig);
-        contentCache = getInitialMockContent(mockModeConfig);
-        debugLog('Mock content loaded', { mockContent: contentCache });
-        isContentLoading = false;
-        notify();
-        await processQueuedEvents(handleEvent);
-        return;
+    debugLog('Discarding session token issued for another user', { userId, tokenUserId: owner?.userId });
+    sessions.clearSessionToken();
+    state.seenContentIds = new Set();
+    return null;
+  };
+
+  // Clears the token of a session continuing under a new one (e.g. after the API rejected it);
+  // popups consumed and presented so far still count
+  const clearContinuedSessionToken = () => {
+    const consumedContentIds = sessions.readConsumedContentIds();
+    const popupHistory = sessions.readPopupHistory();
+    sessions.clearSessionToken();
+    consumedContentIds.forEach((contentId) => sessions.storeConsumedContentId(contentId));
+    sessions.storePopupHistory(popupHistory);
+  };
+
+  const composeAnonymousSession = (userAttributes?: object): SessionStartedEvent => ({
+    type: 'session-started',
+    userId: sessions.getDeviceId(),
+    userAttributes,
+    isAnonymous: true,
+  });
+
+  // An anonymous session is upgraded once the user is identified; popups consumed and presented while anonymous
+  // still count. Returns the device ID of the upgraded session, so the API can merge it into the new one.
+  const upgradeAnonymousSession = (userId: string): string | undefined => {
+    const owner = sessions.readSessionTokenOwner();
+    const deviceId = owner ? sessions.getDeviceId() : undefined;
+    if (!owner || owner.userId !== deviceId) return undefined;
+
+    debugLog('Upgrading anonymous session', { userId, deviceId });
+    clearContinuedSessionToken();
+    return deviceId;
+  };
+
+  // Gets the token of the active session, ignoring one stored since for another user (e.g. by another tab)
+  const readActiveSessionToken = (): string | null => {
+    const session = state.sessionEvent;
+    return session && isIssuedFor(sessions.readSessionTokenOwner(), session.userId)
+      ? sessions.readSessionToken()
+      : null;
+  };
+
+  const fetchSessionContent = async (event: SessionStartedEvent): Promise<TargetedContent[]> => {
+    if (mockModeConfig.enabled) {
+      debugLog('Mock mode enabled - using mock content instead of API call');
+      await simulateNetworkDelay(mockModeConfig);
+      const content = getInitialMockContent(mockModeConfig);
+      debugLog('Mock content loaded', { mockContent: content });
+      return content;
+    }
+
+    const anonymousId = event.isAnonymous ? undefined : upgradeAnonymousSession(event.userId);
+    const sessionToken = readSessionTokenFor(event.userId);
+    if (sessionToken) {
+      debugLog('Existing session token found, refreshing session');
+      try {
+        const result = await recordEvent({
+          organizationCode: config.organizationCode,
+          type: 'session-refresh',
+          sessionToken,
+          userId: event.userId,
+        });
+        debugLog('Session refreshed successfully', { content: result.content });
+        return result.content;
+      } catch (error) {
+        if (!isSessionTokenRejection(error)) throw error;
+        // The token was revoked or expired on the server, so a new session is started below
+        debugLog('Session token rejected, starting a new session', { error });
+        clearContinuedSessionToken();
       }
+    }
+
+    // Anonymous sessions have no user identity to verify, so they are always started via the API
+    if (config.initiateSession && !event.isAnonymous) {
+      debugLog('Using custom initiateSession function');
+      let sessionResult: Awaited<ReturnType<InitiateSession>>;
+      try {
+        sessionResult = await config.initiateSession({
+          organizationCode: config.organizationCode,
+          userId: event.userId,
+          userIdVerification: event.userIdVerification,
+          userAttributes: event.userAttributes,
+          anonymousId,
+        });
+      } catch (error) {
+        throw toWaveCxError(error, 'session-init');
+      }
+      sessions.storeSessionToken(sessionResult.sessionToken, sessionResult.expiresIn ?? 3600, event.userId);
+      debugLog('Session initiated, fetching content');
+      const result = await recordEvent({
+        organizationCode: config.organizationCode,
+        type: 'session-refresh',
+        sessionToken: sessionResult.sessionToken,
+        userId: event.userId,
+      });
+      debugLog('Content fetched successfully', { content: result.content });
+      return result.content;
+    }
+
+    debugLog('Starting new session via API', { isAnonymous: event.isAnonymous ?? false });
+    const result = await recordEvent({
+      type: 'session-started',
+      organizationCode: config.organizationCode,
+      userId: event.userId,
+      userIdVerification: event.userIdVerification,
+      userAttributes: event.userAttributes,
+      isAnonymous: event.isAnonymous,
+      anonymousId,
+    });
+    if (result.sessionToken) {
+      sessions.storeSessionToken(result.sessionToken, result.expiresIn ?? 3600, event.userId);
+      debugLog('Session token stored');
+    }
+    debugLog('Session started successfully', { content: result.content });
+    return result.content;
+  };
+
+  // Persisted content is only a fallback, so storage failures are logged and otherwise ignored
+  const readOfflineContent = async (key: string): Promise<TargetedContent[] | undefined> => {
+    try {
+      const entry = await offlineContentStorage?.read(key);
+      const maxAge = config.offlineContent?.maxAge ?? defaultOfflineContentMaxAge;
+      if (!entry || Date.now() - entry.storedAt > maxAge) return undefined;
+      return entry.content;
+    } catch (error) {
+      debugLog('Reading offline content failed', { error });
+      return undefined;
+    }
+  };
+
+  const writeOfflineContent = async (content: TargetedContent[]) => {
+    if (!state.offlineContentKey) return;
+    try {
+      await offlineContentStorage?.write(state.offlineContentKey, {content, storedAt: Date.now()});
+    } catch (error) {
+      debugLog('Writing offline content failed', { error });
+    }
+  };
+
+  const removeOfflineContent = async () => {
+    const key = state.offlineContentKey;
+    state.offlineContentKey = undefined;
+    if (!key) return;
+    try {
+      await offlineContentStorage?.remove(key);
+    } catch (error) {
+      debugLog('Removing offline content failed', { error });
+    }
+  };
+
+  const getSessionTokenLifetime = (): number | undefined => {
+    const expiration = sessions.readSessionTokenExpiration();
+    return expiration ? Math.max(expiration.getTime() - Date.now(), 0) : undefined;
+  };
+
+  // Refreshed content replaces the cache; popups consumed earlier in the session stay excluded
+  const applyRefreshedContent = (refreshedContent: TargetedContent[]) => {
+    const content = normalizeContent(refreshedContent);
+    void writeOfflineContent(content);
+    state.contentCache = withoutConsumedPopups(content);
+    scheduleWindowChange();
+    debugLog('Content refreshed', { content: state.contentCache });
+    notify();
+    replayOutbox();
+  };
+
+  // Replaces a session whose token the API rejected with a new one for the same user, keeping the current content
+  // until the new session's content arrives
+  const replaceRejectedSession = async (session: SessionStartedEvent) => {
+    debugLog('Session token rejected, starting a new session', { userId: session.userId });
+    clearContinuedSessionToken();
+    const content = await fetchSessionContent(session);
+    if (state.sessionEvent !== session) return;
+    applyRefreshedContent(content);
+    startSessionUpdates(session);
+  };
+
+  let isRefreshing = false;
+
+  const refreshContent = async () => {
+    const session = state.sessionEvent;
+    const sessionToken = readActiveSessionToken();
+    if (!session || !sessionToken || mockModeConfig.enabled || state.isContentLoading || isRefreshing) {
+      debugLog('Skipping content refresh');
+      return;
+    }
 
-      const sessionToken = readSessionToken();
-      if (sessionToken) {
-        debugLog('Existing session token found, refreshing session');
+    isRefreshing = true;
+    try {
+      const result = await recordEvent({
+        organizationCode: config.organizationCode,
+        type: 'session-refresh',
+        sessionToken,
+        userId: session.userId,
+      });
+      // The session may have ended or restarted while the request was in flight
+      if (state.sessionEvent !== session || state.isContentLoading) return;
+      applyRefreshedContent(result.content);
+    } catch (error) {
+      if (isSessionTokenRejection(error) && state.sessionEvent === session) {
         try {
-          isContentLoading = true;
-          notify();
-          const result = await recordEvent({
-            organizationCode: config.organizationCode,
-            type: 'session-refresh',
-            sessionToken,
-            userId: event.userId,
-          });
-          contentCache = result.content;
-          debugLog('Session refreshed successfully', { content: result.content });
-        } catch (error) {
-          debugLog('Session refresh failed', { error });
+          await replaceRejectedSession(session);
+        } catch (replaceError) {
+          debugLog('Content refresh failed', { error: toWaveCxError(replaceError) });
         }
-        isContentLoading = false;
-        notify();
-        await processQueuedEvents(handleEvent);
+      } else {
+        debugLog('Content refresh failed', { error: toWaveCxError(error) });
+      }
+    } finally {
+      isRefreshing = false;
+    }
+  };
+
+  // Pushed content is added or replaced by ID; consumed popups stay excluded
+  const applyStreamMessage = (message: ContentStreamMessage) => {
+    debugLog('Content stream message received', { message });
+    if (message.type === 'content-removed') {
+      state.contentCache = state.contentCache.filter((c) => getContentId(c) !== message.contentId);
+      state.popupSequence = state.popupSequence.filter((c) => getContentId(c) !== message.contentId);
+    } else if (message.type === 'content-added' || message.type === 'content-updated') {
+      const [content] = withoutConsumedPopups(normalizeContent([message.content]));
+      if (!content) return;
+      const contentId = getContentId(content);
+      state.contentCache = state.contentCache.some((c) => getContentId(c) === contentId)
+        ? state.contentCache.map((c) => getContentId(c) === contentId ? content : c)
+        : [...state.contentCache, content];
+    } else {
+      return;
+    }
+    scheduleWindowChange();
+    notify();
+  };
+
+  // Re-targets the session for new or changed user attributes; popups consumed earlier in the session stay excluded
+  const updateUserAttributes = async (userAttributes: object) => {
+    const currentSession = state.sessionEvent;
+    if (!currentSession) {
+      debugLog('No active session, ignoring user attribute update');
+      return;
+    }
+
+    // Later session restarts and renewals use the updated attributes
+    const session: SessionStartedEvent = {
+      ...currentSession,
+      userAttributes: {...currentSession.userAttributes, ...userAttributes},
+    };
+    state.sessionEvent = session;
+
+    const sessionToken = readActiveSessionToken();
+    if (!sessionToken || mockModeConfig.enabled) {
+      debugLog('Skipping user attribute update request');
+      return;
+    }
+
+    debugLog('Updating user attributes', { userAttributes });
+    try {
+      let result: Awaited<ReturnType<FireTargetedContentEvent>>;
+      try {
+        result = await recordEvent({
+          organizationCode: config.organizationCode,
+          type: 'attributes-updated',
+          sessionToken,
+          userId: session.userId,
+          userAttributes,
+        });
+      } catch (error) {
+        if (!isSessionTokenRejection(error) || state.sessionEvent !== session) throw error;
+        await replaceRejectedSession(session);
         return;
       }
+      // The session may have ended, restarted or been updated again while the request was in flight
+      if (state.sessionEvent !== session) return;
+      applyRefreshedContent(result.content);
+    } catch (error) {
+      const waveCxError = toWaveCxError(error);
+      debugLog('User attribute update failed', { error: waveCxError });
+      invokeCallback('onSessionError', {userId: session.userId, error: waveCxError});
+    }
+  };
+
+  // Reached trigger points are reported for analytics in the background, never delaying content presentation
+  const reportTriggerPoint = (triggerPoint: string) => {
+    const session = state.sessionEvent;
+    const sessionToken = readActiveSessionToken();
+    if (config.disableTriggerPointReporting || !session || !sessionToken || mockModeConfig.enabled) return;
 
-      if (config.initiateSession) {
-        debugLog('Using custom initiateSession function');
+    debugLog('Reporting trigger point', { triggerPoint });
+    void getTriggerPointBatcher().send({
+      organizationCode: config.organizationCode,
+      sessionToken,
+      userId: session.userId,
+      events: [{type: 'trigger-point', triggerPoint, occurredAt: new Date().toISOString()}],
+    });
+  };
+
+  const clearTokenRenewalTimer = () => {
+    clearTimeout(state.tokenRenewalTimer);
+    state.tokenRenewalTimer = undefined;
+  };
+
+  // Failed renewals are retried with backoff until the token expires
+  let renewalAttempts = 0;
+
+  const scheduleTokenRenewal = () => {
+    clearTokenRenewalTimer();
+    renewalAttempts = 0;
+    const lifetime = getSessionTokenLifetime();
+    if (lifetime === undefined || mockModeConfig.enabled) return;
+
+    // Short-lived tokens are renewed halfway through, rather than right away on every renewal
+    const renewIn = lifetime - Math.min(tokenRenewalLeadTime, lifetime / 2);
+    debugLog('Scheduling session token renewal', { renewIn });
+    state.tokenRenewalTimer = setTimeout(() => {
+      void renewSessionToken();
+    }, Math.min(renewIn, MAX_TIMER_DELAY));
+  };
+
+  const scheduleTokenRenewalRetry = () => {
+    clearTokenRenewalTimer();
+    const lifetime = getSessionTokenLifetime();
+    if (!lifetime) {
+      debugLog('Session token expired without being renewed');
+      return;
+    }
+
+    const retryIn = Math.min(
+      retryConfig.initialDelay * retryConfig.multiplier ** renewalAttempts,
+      retryConfig.maxDelay,
+      lifetime,
+    );
+    renewalAttempts++;
+    debugLog('Retrying session token renewal', { retryIn, attempt: renewalAttempts });
+    state.tokenRenewalTimer = setTimeout(() => {
+      void renewSessionToken();
+    }, retryIn);
+  };
+
+  // Renews the token of the current session, so long-lived pages keep the same session
+  const renewSessionToken = async () => {
+    const session = state.sessionEvent;
+    const sessionToken = readActiveSessionToken();
+    if (!session || !sessionToken) return;
+
+    // Timers cannot span the lifetime of very long-lived tokens
+    if ((getSessionTokenLifetime() ?? 0) > tokenRenewalLeadTime) {
+      scheduleTokenRenewal();
+      return;
+    }
+
+    debugLog('Renewing session token');
+    try {
+      if (config.initiateSession && !session.isAnonymous) {
+        let sessionResult: Awaited<ReturnType<InitiateSession>>;
         try {
-          isContentLoading = true;
-          notify();
-          const sessionResult = await config.initiateSession({
+          sessionResult = await config.initiateSession({
             organizationCode: config.organizationCode,
-            userId: event.userId,
-            userIdVerification: event.userIdVerification,
-            userAttributes: event.userAttributes,
+            userId: session.userId,
+            userIdVerification: session.userIdVerification,
+            userAttributes: session.userAttributes,
           });
-          storeSessionToken(sessionResult.sessionToken, sessionResult.expiresIn ?? 3600);
-          debugLog('Session initiated, fetching content');
-          const result = await recordEvent({
-            organizationCode: config.organizationCode,
-            type: 'session-refresh',
-            sessionToken: sessionResult.sessionToken,
-            userId: event.userId,
-          });
-          contentCache = result.content;
-          debugLog('Content fetched successfully', { content: result.content });
         } catch (error) {
-          debugLog('Session initiation failed', { error });
+          throw toWaveCxError(error, 'session-init');
         }
-        isContentLoading = false;
-        notify();
-        await processQueuedEvents(handleEvent);
+        if (state.sessionEvent !== session) return;
+        sessions.storeSessionToken(sessionResult.sessionToken, sessionResult.expiresIn ?? 3600, session.userId);
       } else {
-        debugLog('Starting new session via API');
-        isContentLoading = true;
-        notify();
+        let result: Awaited<ReturnType<FireTargetedContentEvent>>;
         try {
-          const result = await recordEvent({
-            type: 'session-started',
+          result = await recordEvent({
             organizationCode: config.organizationCode,
-            userId: event.userId,
-            userIdVerification: event.userIdVerification,
-            userAttributes: event.userAttributes,
+            type: 'session-refresh',
+            sessionToken,
+            userId: session.userId,
           });
-          if (result.sessionToken) {
-            storeSessionToken(result.sessionToken, result.expiresIn ?? 3600);
-            debugLog('Session token stored');
-          }
-          contentCache = result.content;
-          debugLog('Session started successfully', { content: result.content });
         } catch (error) {
-          debugLog('Session start failed', { error });
+          if (!isSessionTokenRejection(error) || state.sessionEvent !== session) throw error;
+          await replaceRejectedSession(session);
+          return;
+        }
+        if (state.sessionEvent !== session) return;
+        applyRefreshedContent(result.content);
+        if (!result.sessionToken) {
+          debugLog('Session refresh did not issue a new session token');
+          scheduleTokenRenewalRetry();
+          return;
         }
-        isContentLoading = false;
+        sessions.storeSessionToken(result.sessionToken, result.expiresIn ?? 3600, session.userId);
+      }
+    } catch (error) {
+      const waveCxError = toWaveCxError(error);
+      debugLog('Session token renewal failed', { error: waveCxError });
+      if (state.sessionEvent !== session) return;
+      // Reported once per renewal; retries are only logged
+      if (renewalAttempts === 0) invokeCallback('onSessionError', {userId: session.userId, error: waveCxError});
+      scheduleTokenRenewalRetry();
+      return;
+    }
+
+    debugLog('Session token renewed', { lifetime: getSessionTokenLifetime() });
+    // Restarting updates reopens the content stream with the renewed token
+    startSessionUpdates(session);
+    notify();
+  };
+
+  const stopSessionUpdates = () => {
+    clearTokenRenewalTimer();
+    state.stopContentRefresh?.();
+    state.stopContentRefresh = undefined;
+    state.closeContentStream?.();
+    state.closeContentStream = undefined;
+  };
+
+  const startSessionUpdates = (session: SessionStartedEvent) => {
+    stopSessionUpdates();
+    state.sessionEvent = session;
+    scheduleTokenRenewal();
+    if (config.contentRefresh) {
+      state.stopContentRefresh = startContentRefresh(config.contentRefresh, () => {
+        void refreshContent();
+      }, debugLog);
+    }
+
+    const sessionToken = readActiveSessionToken();
+    if (contentStreamTransport && sessionToken && !mockModeConfig.enabled) {
+      state.closeContentStream = openContentStream({
+        transport: contentStreamTransport,
+        organizationCode: config.organizationCode,
+        sessionToken,
+        userId: session.userId,
+        retryConfig,
+        debugLog,
+        onMessage: applyStreamMessage,
+      });
+    }
+  };
+
+  const broadcastSessionStarted = (event: SessionStartedEvent) => {
+    tabSync?.post({
+      type: 'session-started',
+      userId: event.userId,
+      userIdVerification: event.userIdVerification,
+      userAttributes: event.userAttributes,
+      isAnonymous: event.isAnonymous,
+    });
+  };
+
+  const startSession = async (event: SessionStartedEvent, shouldBroadcast: boolean) => {
+    if (state.isContentLoading || state.isRevalidating) {
+      debugLog('Session start already in progress, skipping');
+      return;
+    }
+
+    // Initial content fetched for another user is never served; its session token is discarded on fetch
+    if (state.hasInitialContent && config.initialUserId !== undefined && config.initialUserId !== event.userId) {
+      debugLog('Initial content was fetched for another user, starting a new session', {
+        userId: event.userId, initialUserId: config.initialUserId,
+      });
+      state.hasInitialContent = false;
+    }
+
+    if (state.hasInitialContent) {
+      debugLog('Using initial content, skipping session start request', { userId: event.userId });
+      state.hasInitialContent = false;
+      startSessionUpdates(event);
+      if (shouldBroadcast) broadcastSessionStarted(event);
+      invokeCallback('onSessionStarted', {userId: event.userId, content: state.contentCache});
+      await processQueuedEvents();
+      return;
+    }
+
+    debugLog('Starting session', { userId: event.userId });
+    stopSessionUpdates();
+    state.sessionEvent = undefined;
+    state.contentCache = [];
+    state.isContentLoading = true;
+    notify();
+
+    // Content persisted for the user is served right away, while fresh content is fetched in the background
+    if (offlineContentStorage && !mockModeConfig.enabled) {
+      state.offlineContentKey = getContentStorageKey(config.organizationCode, event.userId);
+      const offlineContent = await readOfflineContent(state.offlineContentKey);
+      if (offlineContent) {
+        debugLog('Serving offline content while revalidating', { content: offlineContent });
+        state.contentCache = withoutConsumedPopups(normalizeContent(offlineContent));
+        scheduleWindowChange();
+        state.isContentLoading = false;
+        state.isRevalidating = true;
         notify();
-        await processQueuedEvents(handleEvent);
+        await processQueuedEvents();
       }
+    }
+
+    try {
+      const fetchedContent = normalizeContent(await fetchSessionContent(event));
+      void writeOfflineContent(fetchedContent);
+      const content = withoutConsumedPopups(fetchedContent);
+      state.contentCache = content;
+      scheduleWindowChange();
+      state.lastError = undefined;
+      state.failedSessionEvent = undefined;
+      startSessionUpdates(event);
+      if (shouldBroadcast) broadcastSessionStarted(event);
+      invokeCallback('onSessionStarted', {userId: event.userId, content});
+      replayOutbox();
+    } catch (error) {
+      const waveCxError = toWaveCxError(error);
+      debugLog('Session start failed', { error: waveCxError });
+      state.lastError = waveCxError;
+      state.failedSessionEvent = event;
+      invokeCallback('onSessionError', {userId: event.userId, error: waveCxError});
+    }
+    state.isContentLoading = false;
+    state.isRevalidating = false;
+    notify();
+    await processQueuedEvents();
+  };
+
+  const endSession = () => {
+    debugLog('Ending session');
+    // Dismissed while the session is still active, so the dismissal can be reported for it
+    dismissModal('session-end');
+    state.contentCache = [];
+    clearScheduleTimer();
+    stopSessionUpdates();
+    state.sessionEvent = undefined;
+    void removeOfflineContent();
+    state.seenContentIds = new Set();
+    state.hasInitialContent = false;
+    state.lastError = undefined;
+    state.failedSessionEvent = undefined;
+    sessions.clearSessionToken();
+    void outbox?.clear();
+    notify();
+    debugLog('Session ended successfully');
+  };
+
+  const handleEvent: EventHandler = async (event) => {
+    debugLog('handleEvent called', { eventType: event.type });
+
+    // Events raised during server rendering would leak state between requests
+    if (!isBrowser()) {
+      debugLog('Not in a browser, ignoring event until after hydration', { eventType: event.type });
+      return;
+    }
+
+    if (!sessions.isReady()) {
+      debugLog('Waiting for the session store to load');
+      await sessions.ready;
+    }
+
+    if (event.type === 'session-started') {
+      await startSession(event, true);
+    } else if (event.type === 'anonymous-session-started') {
+      await startSession(composeAnonymousSession(event.userAttributes), true);
     } else if (event.type === 'session-ended') {
-      debugLog('Ending session');
-      contentCache = [];
-      dismissModal();
-      clearSessionToken();
-      notify();
-      debugLog('Session ended successfully');
+      endSession();
+      tabSync?.post({type: 'session-ended'});
+    } else if (event.type === 'attributes-updated') {
+      if (state.isContentLoading || state.isRevalidating) {
+        debugLog('Content is loading, queueing user attribute update');
+        state.eventQueue.push(event);
+        return;
+      }
+      await updateUserAttributes(event.userAttributes);
     } else if (event.type === 'user-triggered-content') {
-      const triggerPoint = event.triggerPoint ?? activeTriggerPoint;
+      const triggerPoint = event.triggerPoint ?? state.activeTriggerPoint;
       debugLog('Showing user-triggered content', { triggerPoint });
 
       if (triggerPoint) {
-        const content = contentCache.find((c) =>
+        const content = state.contentCache.find((c) =>
           c.triggerPoint === triggerPoint
           && c.presentationType === 'button-triggered'
+          && isAvailable(c)
         );
 
         if (content) {
           if (isValidContentUrl(content.viewUrl, mockModeConfig.enabled)) {
             debugLog('User-triggered content found', { triggerPoint });
-            currentDismissCallback = event.onContentDismissed;
-            renderModal(content, debugLog);
+            supersedeDisplayedContent();
+            state.currentDismissCallback = event.onContentDismissed;
+            showModal(content, triggerPoint);
           } else {
             debugLog('User-triggered content rejected - invalid URL', {
               triggerPoint, viewUrl: content.viewUrl,
             });
+            invokeCallback('onContentRejected', {
+              contentId: getContentId(content), content, triggerPoint, reason: 'invalid-url',
+            });
           }
         } else {
           debugLog('No user-triggered content found', { triggerPoint });
@@ -401,70 +1275,262 @@ export function createHandleEvent(config: CoreConfig): EventHandler {
     } else if (event.type === 'trigger-point') {
       debugLog('Trigger point fired', { triggerPoint: event.triggerPoint });
 
-      if (isContentLoading) {
+      if (state.isContentLoading) {
         debugLog('Content is loading, queueing trigger point event');
-        eventQueue.push(event);
+        state.eventQueue.push(event);
         return;
       }
 
+      reportTriggerPoint(event.triggerPoint);
+
       // Don't dismiss if the same trigger point fires again (e.g. React strict mode double-invoke)
-      if (activeTriggerPoint !== event.triggerPoint) {
-        dismissModal();
+      if (state.activeTriggerPoint !== event.triggerPoint) {
+        dismissModal('superseded');
       }
-      activeTriggerPoint = event.triggerPoint;
-      currentDismissCallback = event.onContentDismissed;
+      state.activeTriggerPoint = event.triggerPoint;
+      state.currentDismissCallback = event.onContentDismissed;
 
-      if (!config.disablePopupContent) {
-        const popupContent = contentCache.find((c) =>
-          c.triggerPoint === event.triggerPoint
-          && c.presentationType === 'popup'
-        );
+      // Don't restart a sequence already presenting for this trigger point
+      const isPresentingTriggerPoint = state.displayedContent?.triggerPoint === event.triggerPoint
+        && state.displayedContent.content.presentationType === 'popup';
+
+      if (!config.disablePopupContent && !isPresentingTriggerPoint) {
+        const popupContent = state.contentCache
+          .filter((c) => c.triggerPoint === event.triggerPoint && c.presentationType === 'popup' && isAvailable(c))
+          .sort(byPriority);
 
-        if (popupContent) {
-          if (isValidContentUrl(popupContent.viewUrl, mockModeConfig.enabled)) {
-            debugLog('Popup content found for trigger point', { triggerPoint: event.triggerPoint });
-            renderModal(popupContent, debugLog);
+        const validPopupContent: TargetedContent[] = [];
+        for (const content of popupContent) {
+          if (isValidContentUrl(content.viewUrl, mockModeConfig.enabled)) {
+            validPopupContent.push(content);
           } else {
             debugLog('Popup content rejected - invalid URL', {
-              triggerPoint: event.triggerPoint, viewUrl: popupContent.viewUrl,
+              triggerPoint: event.triggerPoint, viewUrl: content.viewUrl,
+            });
+            invokeCallback('onContentRejected', {
+              contentId: getContentId(content),
+              content,
+              triggerPoint: event.triggerPoint,
+              reason: 'invalid-url',
             });
+            // Remove rejected popup content from cache
+            state.contentCache = state.contentCache.filter((c) => c !== content);
           }
         }
 
-        // Remove consumed popup content from cache
-        contentCache = contentCache.filter((c) =>
-          c.triggerPoint !== event.triggerPoint
-          || c.presentationType !== 'popup'
-        );
+        const suppressionReason = validPopupContent.length > 0
+          ? checkPopupPolicy(popupPolicy, sessions.readPopupHistory(), event.triggerPoint, Date.now())
+          : undefined;
+
+        if (suppressionReason) {
+          suppressPopups(validPopupContent, event.triggerPoint, suppressionReason);
+        } else if (validPopupContent.length > 0) {
+          debugLog('Popup content found for trigger point', {
+            triggerPoint: event.triggerPoint, count: validPopupContent.length,
+          });
+          // A sequence is presented as a whole, but never beyond the popups left for the session
+          const allowance = getRemainingPopupAllowance(popupPolicy, sessions.readPopupHistory());
+          suppressPopups(validPopupContent.slice(allowance), event.triggerPoint, 'max-popups-per-session');
+          const [first, ...rest] = validPopupContent.slice(0, allowance);
+          state.popupSequence = rest;
+          presentPopup(first, event.triggerPoint);
+        }
       }
 
       notify();
     }
   };
 
+  // Events from other tabs are applied locally without being broadcast again
+  const handleTabSyncMessage = (message: TabSyncMessage) => {
+    debugLog('Message received from another tab', { message });
+    if (message.type === 'session-started' && message.isAnonymous) {
+      // Each tab identifies anonymous sessions by the device ID in its own session store
+      if (state.sessionEvent?.isAnonymous) return;
+      void startSession(composeAnonymousSession(message.userAttributes), false);
+    } else if (message.type === 'session-started') {
+      if (state.sessionEvent?.userId === message.userId) return;
+      void startSession(message, false);
+    } else if (message.type === 'session-ended') {
+      endSession();
+    } else if (message.type === 'content-consumed') {
+      const isConsumed = (c: TargetedContent) =>
+        c.presentationType === 'popup' && getContentId(c) === message.contentId;
+      sessions.storeConsumedContentId(message.contentId);
+      state.contentCache = state.contentCache.filter((c) => !isConsumed(c));
+      state.popupSequence = state.popupSequence.filter((c) => !isConsumed(c));
+      notify();
+    }
+  };
+
+  const showContent = (contentId: string, onContentDismissed?: DismissCallback): boolean => {
+    if (!isBrowser()) {
+      debugLog('Not in a browser, ignoring request to show content', { contentId });
+      return false;
+    }
+
+    const content = state.contentCache.find((c) => getContentId(c) === contentId);
+    if (!content) {
+      debugLog('No content found for ID', { contentId });
+      return false;
+    }
+    if (!isAvailable(content)) {
+      debugLog('Content is outside its scheduling window', { contentId });
+      return false;
+    }
+    if (!isValidContentUrl(content.viewUrl, mockModeConfig.enabled)) {
+      debugLog('Content rejected - invalid URL', { contentId, viewUrl: content.viewUrl });
+      invokeCallback('onContentRejected', {
+        contentId, content, triggerPoint: content.triggerPoint, reason: 'invalid-url',
+      });
+      return false;
+    }
+
+    debugLog('Showing content by ID', { contentId });
+    supersedeDisplayedContent();
+    state.currentDismissCallback = onContentDismissed;
+    if (content.presentationType === 'popup') {
+      presentPopup(content, content.triggerPoint);
+    } else {
+      showModal(content, content.triggerPoint);
+    }
+    notify();
+    return true;
+  };
+
+  const retry = async () => {
+    const event = state.failedSessionEvent;
+    if (!event) {
+      debugLog('No failed session start to retry');
+      return;
+    }
+    debugLog('Retrying session start', { userId: event.userId });
+    await handleEvent(event);
+  };
+
+  const connect = () => {
+    if (!isBrowser() || isConnected) return;
+    isConnected = true;
+    if (config.crossTabSync && !tabSync) {
+      tabSync = openTabSyncChannel(config.organizationCode, handleTabSyncMessage);
+    }
+    if (outbox) window.addEventListener('online', replayOutbox);
+
+    state.connectedClients++;
+    // Resumes a session paused by the last client being released, e.g. by a provider remounting
+    if (state.connectedClients === 1 && state.sessionEvent) {
+      startSessionUpdates(state.sessionEvent);
+      scheduleWindowChange();
+    }
+  };
+
+  const release = () => {
+    if (isConnected) {
+      isConnected = false;
+      state.connectedClients--;
+      // Session timers would otherwise keep running for state no client uses
+      if (state.connectedClients === 0) {
+        stopSessionUpdates();
+        clearScheduleTimer();
+      }
+    }
+    tabSync?.close();
+    tabSync = undefined;
+    telemetryBatcher?.close();
+    telemetryBatcher = undefined;
+    triggerPointBatcher?.close();
+    triggerPointBatcher = undefined;
+    if (outbox) window.removeEventListener('online', replayOutbox);
+  };
+
+  const destroy = () => {
+    release();
+    state.modalHost.close();
+    clearScheduleTimer();
+    stopSessionUpdates();
+    state.popupSequence = [];
+    state.activeTriggerPoint = undefined;
+    state.currentDismissCallback = undefined;
+    state.displayedContent = undefined;
+    state.eventQueue = [];
+    state.listeners.clear();
+  };
+
   debugLog('WaveCX core initialized', {
     organizationCode: config.organizationCode,
-    apiBaseUrl: config.apiBaseUrl ?? 'https://api.wavecx.com',
+    apiBaseUrl,
     debugMode: config.debugMode ?? false,
     disablePopupContent: config.disablePopupContent ?? false,
+    disableTriggerPointReporting: config.disableTriggerPointReporting ?? false,
     mockMode: mockModeConfig.enabled,
   });
 
-  return handleEvent;
+  return {
+    handleEvent,
+    subscribe,
+    getContentCache: () => state.contentCache,
+    getIsContentLoading: () => state.isContentLoading,
+    getActiveTriggerPoint: () => state.activeTriggerPoint,
+    getError: () => state.lastError,
+    retry,
+    getSessionTokenLifetime,
+    hasContent,
+    hasPopupContentForTriggerPoint: (triggerPoint) => hasContent(triggerPoint, 'popup'),
+    showContent,
+    // Popups consumed before a reload were presented during the same session
+    hasSeen: (contentId) =>
+      state.seenContentIds.has(contentId) || sessions.readConsumedContentIds().includes(contentId),
+    connect,
+    release,
+    destroy,
+  };
+};
+
+/**
+ * Creates an independent WaveCX client.
+ * Each client owns its content cache, event queue, subscribers and modal host,
+ * so multiple clients can be used side by side without sharing state.
+ */
+export function createWaveCxClient(config: CoreConfig): WaveCxClient {
+  const client = composeWaveCxClient(config, createCoreState());
+  client.connect();
+  return client;
+}
+
+/**
+ * Creates a client backed by state shared with every other client created this way.
+ * The client is not connected: its owner connects it once mounted, so clients created by renders
+ * that are never committed hold nothing.
+ */
+export function createSharedWaveCxClient(config: CoreConfig): WaveCxClient {
+  return composeWaveCxClient(config, sharedState);
 }
 
 // For testing
 export function resetCoreState(): void {
-  contentCache = [];
-  isContentLoading = false;
-  eventQueue = [];
-  activeTriggerPoint = undefined;
-  listeners.clear();
-  cleanupOutsideClickListener?.();
-  cleanupOutsideClickListener = undefined;
-  if (modalContainer) {
-    modalContainer.remove();
-    modalContainer = null;
-  }
-  currentDismissCallback = undefined;
+  sharedState.contentCache = [];
+  sharedState.isContentLoading = false;
+  sharedState.eventQueue = [];
+  sharedState.activeTriggerPoint = undefined;
+  sharedState.listeners.clear();
+  sharedState.modalHost.close();
+  sharedState.currentDismissCallback = undefined;
+  sharedState.displayedContent = undefined;
+  sharedState.seenContentIds = new Set();
+  sharedState.popupSequence = [];
+  clearTimeout(sharedState.scheduleTimer);
+  sharedState.scheduleTimer = undefined;
+  sharedState.stopContentRefresh?.();
+  sharedState.stopContentRefresh = undefined;
+  sharedState.closeContentStream?.();
+  sharedState.closeContentStream = undefined;
+  sharedState.offlineContentKey = undefined;
+  sharedState.isRevalidating = false;
+  sharedState.sessionEvent = undefined;
+  clearTimeout(sharedState.tokenRenewalTimer);
+  sharedState.tokenRenewalTimer = undefined;
+  sharedState.hasInitialContent = false;
+  sharedState.lastError = undefined;
+  sharedState.failedSessionEvent = undefined;
+  sharedState.connectedClients = 0;
 }
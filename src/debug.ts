@@ -0,0 +1,13 @@
+export type DebugLog = (message: string, data?: any) => void;
+
+export const createDebugLogger = (debugMode: boolean): DebugLog => {
+  return (message: string, data?: any) => {
+    if (debugMode) {
+      if (data !== undefined) {
+        console.log(`[WaveCx] ${message}`, data);
+      } else {
+        console.log(`[WaveCx] ${message}`);
+      }
+    }
+  };
+};
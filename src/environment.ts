@@ -0,0 +1,5 @@
+/**
+ * Whether code is running in a browser, as opposed to during server rendering.
+ */
+export const isBrowser = (): boolean =>
+  typeof window !== 'undefined' && typeof document !== 'undefined';
@@ -0,0 +1,36 @@
+import {describe, it, expect} from 'vitest';
+
+import {WaveCxError, isSessionTokenRejection, toWaveCxError} from './errors';
+
+describe('toWaveCxError', () => {
+  it('returns WaveCxErrors unchanged', () => {
+    const error = new WaveCxError('http-status', 'API request failed with status 500', {status: 500});
+    expect(toWaveCxError(error, 'network')).toBe(error);
+  });
+
+  it('wraps other errors with the given code', () => {
+    const cause = new TypeError('Failed to fetch');
+    const error = toWaveCxError(cause, 'network');
+
+    expect(error).toBeInstanceOf(WaveCxError);
+    expect(error.code).toBe('network');
+    expect(error.message).toBe('Failed to fetch');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('classifies unrecognized errors as unknown by default', () => {
+    expect(toWaveCxError('failure').code).toBe('unknown');
+  });
+});
+
+describe('isSessionTokenRejection', () => {
+  it('recognizes rejected session tokens', () => {
+    const error = new WaveCxError('token-expired', 'API request failed with status 401', {status: 401});
+    expect(isSessionTokenRejection(error)).toBe(true);
+  });
+
+  it('does not treat transient failures as rejections', () => {
+    expect(isSessionTokenRejection(new WaveCxError('network', 'API request could not be sent'))).toBe(false);
+    expect(isSessionTokenRejection(new Error('failure'))).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+export type WaveCxErrorCode =
+  | 'network' // the API could not be reached
+  | 'http-status' // the API responded with an unsuccessful status
+  | 'invalid-response' // the API response could not be understood
+  | 'session-init' // a custom `initiateSession` function failed
+  | 'token-expired' // the API rejected the session token
+  | 'unknown';
+
+/**
+ * Error raised by the SDK, classified by a `code` so failures can be told apart
+ * (e.g. "WaveCX is unreachable" vs. "no content for this user").
+ */
+export class WaveCxError extends Error {
+  readonly code: WaveCxErrorCode;
+  /**
+   * HTTP status of the failed response, for `http-status` and `token-expired` errors
+   */
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(code: WaveCxErrorCode, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'WaveCxError';
+    this.code = code;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Wraps any thrown value in a `WaveCxError`, leaving existing `WaveCxError`s untouched.
+ */
+export const toWaveCxError = (error: unknown, code: WaveCxErrorCode = 'unknown'): WaveCxError => {
+  if (error instanceof WaveCxError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new WaveCxError(code, message, {cause: error});
+};
+
+/**
+ * Whether an error means the API rejected the session token (e.g. it was revoked or expired on the server),
+ * so retrying with the same token cannot succeed.
+ */
+export const isSessionTokenRejection = (error: unknown): boolean =>
+  error instanceof WaveCxError && error.code === 'token-expired';
@@ -6,8 +6,17 @@ export {
   type Event,
   type EventHandler,
   type ContentFetchStrategy,
+  type WaveCxClient,
+  type CoreConfig,
+  type LifecycleCallbacks,
+  type ContentDetails,
+  type DismissCallback,
 } from './provider';
 
+export {
+  createWaveCxClient,
+} from './core';
+
 export {
   fireTargetedContentEventViaApi,
   composeFireTargetedContentEventViaApi,
@@ -16,14 +25,68 @@ export {
 } from './targeted-content';
 
 export {
+  createSessionStorageSessionStore,
+  createLocalStorageSessionStore,
+  createMemorySessionStore,
+  createCookieSessionStore,
   type InitiateSession,
+  type SessionStore,
 } from './sessions';
 
+export {
+  WaveCxError,
+  type WaveCxErrorCode,
+} from './errors';
+
 export {
   type RetryConfig,
   defaultRetryConfig,
 } from './retry';
 
+export {
+  type PopupPolicy,
+  type PopupSuppressionReason,
+} from './popup-policy';
+
+export {
+  type ContentRefreshConfig,
+} from './content-refresh';
+
+export {
+  composeServerSentEventsTransport,
+  composeWebSocketTransport,
+  type ContentStreamTransport,
+  type ContentStreamConnection,
+  type ContentStreamMessage,
+} from './content-stream';
+
+export {
+  createLocalStorageContentAdapter,
+  type OfflineContentConfig,
+  type ContentStorageAdapter,
+  type PersistedContent,
+} from './content-store';
+
+export {
+  composeSendTelemetryViaApi,
+  type SendTelemetry,
+  type TelemetryBatch,
+  type TelemetryEvent,
+  type DismissalMethod,
+} from './telemetry';
+
+export {
+  type TelemetryBatchConfig,
+} from './telemetry-batch';
+
+export {
+  createIndexedDbOutboxAdapter,
+  createLocalStorageOutboxAdapter,
+  type OfflineOutboxConfig,
+  type OutboxStorageAdapter,
+  type OutboxEntry,
+} from './outbox';
+
 export {
   type MockModeConfig,
   defaultMockModeConfig,
@@ -123,6 +123,7 @@ function generateDefaultMockContent(triggerPoint: string): TargetedContent[] {
   return [
     // Popup content (auto-display)
     {
+      id: `mock-${triggerPoint}-popup`,
       triggerPoint,
       type: 'featurette',
       presentationType: 'popup',
@@ -136,6 +137,7 @@ function generateDefaultMockContent(triggerPoint: string): TargetedContent[] {
     },
     // Button-triggered content
     {
+      id: `mock-${triggerPoint}-button-triggered`,
       triggerPoint,
       type: 'featurette',
       presentationType: 'button-triggered',
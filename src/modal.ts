@@ -0,0 +1,170 @@
+import {type TargetedContent} from './targeted-content';
+import {type DebugLog} from './debug';
+import {isBrowser} from './environment';
+import {type DismissalMethod} from './telemetry';
+
+export type ModalShowOptions = {
+  debugLog: DebugLog;
+  onClose: (method: Extract<DismissalMethod, 'close-button' | 'backdrop' | 'escape'>) => void;
+  onLoad?: () => void;
+};
+
+export type ModalHost = {
+  /**
+   * Renders content in a modal dialog, replacing any content already shown.
+   * `onClose` is invoked with how the user closed the dialog, and `onLoad` once the content frame has loaded.
+   */
+  show: (content: TargetedContent, options: ModalShowOptions) => void;
+  /**
+   * Removes the modal and its container from the DOM without invoking `onClose`.
+   */
+  close: () => void;
+};
+
+/**
+ * Creates a host owning a single modal container element.
+ * The container is created lazily on first `show` and removed on `close`,
+ * so creating a host is safe during server rendering.
+ */
+export function createModalHost(): ModalHost {
+  let modalContainer: HTMLElement | null = null;
+  let cleanupOutsideClickListener: (() => void) | undefined = undefined;
+
+  const getModalContainer = (): HTMLElement => {
+    if (!modalContainer) {
+      modalContainer = document.createElement('div');
+      modalContainer.setAttribute('data-wavecx-modal-container', '');
+      document.body.appendChild(modalContainer);
+    }
+    return modalContainer;
+  };
+
+  const close = () => {
+    cleanupOutsideClickListener?.();
+    cleanupOutsideClickListener = undefined;
+    if (modalContainer) {
+      modalContainer.remove();
+      modalContainer = null;
+    }
+  };
+
+  const show = (content: TargetedContent, {debugLog, onClose, onLoad}: ModalShowOptions) => {
+    if (!isBrowser()) {
+      debugLog('Modal rendering skipped outside the browser');
+      return;
+    }
+
+    const container = getModalContainer();
+    container.innerHTML = '';
+
+    const dialog = document.createElement('dialog');
+    dialog.className = '__wcx_modal';
+    // Closing the dialog any other way is treated like its close button
+    let closeMethod: Parameters<ModalShowOptions['onClose']>[0] = 'close-button';
+    if (content.webModal?.backdropFilterCss) {
+      dialog.style.setProperty('--backdrop-filter', content.webModal.backdropFilterCss);
+    }
+
+    const modalContent = document.createElement('div');
+    modalContent.className = '__wcx_modalContent';
+    if (content.webModal) {
+      if (content.webModal.opacity !== undefined) modalContent.style.opacity = String(content.webModal.opacity);
+      if (content.webModal.shadowCss) modalContent.style.boxShadow = content.webModal.shadowCss;
+      if (content.webModal.borderCss) modalContent.style.border = content.webModal.borderCss;
+      if (content.webModal.borderRadiusCss) modalContent.style.borderRadius = content.webModal.borderRadiusCss;
+      if (content.webModal.heightCss) modalContent.style.height = content.webModal.heightCss;
+      if (content.webModal.widthCss) modalContent.style.width = content.webModal.widthCss;
+      if (content.webModal.marginCss) modalContent.style.margin = content.webModal.marginCss;
+    }
+
+    const form = document.createElement('form');
+    form.method = 'dialog';
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      dialog.close();
+    });
+
+    const closeButton = document.createElement('button');
+    closeButton.className = '__wcx_modalCloseButton';
+    closeButton.title = 'Close';
+    if (content.webModal?.closeButton.style === 'text') {
+      closeButton.className += ' __wcx_textButton';
+      closeButton.textContent = content.webModal.closeButton.label;
+    }
+    form.appendChild(closeButton);
+    modalContent.appendChild(form);
+
+    const loadingView = document.createElement('div');
+    loadingView.className = '__wcx_loadingView';
+    const busy = document.createElement('span');
+    busy.className = '__wcx_busy';
+    busy.setAttribute('aria-label', content.loading?.message ?? 'Loading featured content');
+    const bar = document.createElement('span');
+    bar.className = '__wcx_bar';
+    if (content.loading?.size) bar.style.setProperty('--size', content.loading.size);
+    if (content.loading?.color) bar.style.setProperty('--color', content.loading.color);
+    busy.appendChild(bar);
+    loadingView.appendChild(busy);
+    modalContent.appendChild(loadingView);
+
+    const iframe = document.createElement('iframe');
+    iframe.title = 'Featured Content';
+    iframe.src = content.viewUrl;
+    const sandboxPermissions = [
+      'allow-scripts',
+      'allow-same-origin',
+      'allow-forms',
+      'allow-popups',
+      'allow-popups-to-escape-sandbox',
+      'allow-top-navigation-by-user-activation',
+    ].join(' ');
+    iframe.setAttribute('sandbox', sandboxPermissions);
+    iframe.className = '__wcx_webview';
+    iframe.style.display = 'none';
+    iframe.addEventListener('load', () => {
+      debugLog('Content iframe loaded', { viewUrl: content.viewUrl });
+      loadingView.style.display = 'none';
+      iframe.style.display = '';
+      onLoad?.();
+    });
+    modalContent.appendChild(iframe);
+
+    dialog.appendChild(modalContent);
+
+    dialog.addEventListener('close', () => {
+      close();
+      onClose(closeMethod);
+    });
+
+    // Close on outside click
+    const handleOutsideClick = (e: MouseEvent) => {
+      if (e.target === dialog) {
+        closeMethod = 'backdrop';
+        dialog.close();
+      }
+    };
+    cleanupOutsideClickListener?.();
+    document.addEventListener('mousedown', handleOutsideClick);
+    cleanupOutsideClickListener = () => {
+      document.removeEventListener('mousedown', handleOutsideClick);
+    };
+
+    const handleCancel = (e: globalThis.Event) => {
+      e.preventDefault();
+      closeMethod = 'escape';
+      dialog.close();
+    };
+    dialog.addEventListener('cancel', handleCancel);
+
+    container.appendChild(dialog);
+
+    try {
+      dialog.showModal();
+      dialog.focus();
+    } catch (err) {
+      debugLog('Failed to open modal', { error: err });
+    }
+  };
+
+  return {show, close};
+}
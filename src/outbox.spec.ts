@@ -0,0 +1,210 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest';
+
+import {
+  createIndexedDbOutboxAdapter,
+  createLocalStorageOutboxAdapter,
+  createOutbox,
+  getOutboxStorageKey,
+  type OutboxEntry,
+  type OutboxStorageAdapter,
+} from './outbox';
+import {type TelemetryBatch} from './telemetry';
+import {WaveCxError} from './errors';
+
+const batchOf = (contentId: string, sessionToken = 'token'): TelemetryBatch => ({
+  organizationCode: 'org',
+  sessionToken,
+  userId: 'user-1',
+  events: [{type: 'content-viewed', contentId, triggerPoint: 'tp', occurredAt: '2026-01-01T00:00:00.000Z'}],
+});
+
+const createMemoryStorage = (): OutboxStorageAdapter & { entries: Map<string, OutboxEntry[]> } => {
+  const entries = new Map<string, OutboxEntry[]>();
+  return {
+    entries,
+    read: async (key) => entries.get(key),
+    write: async (key, value) => {
+      entries.set(key, value);
+    },
+  };
+};
+
+describe('getOutboxStorageKey', () => {
+  it('keys the outbox by organization code', () => {
+    expect(getOutboxStorageKey('org')).not.toEqual(getOutboxStorageKey('other-org'));
+  });
+});
+
+describe('createLocalStorageOutboxAdapter', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('reads written entries', () => {
+    const storage = createLocalStorageOutboxAdapter();
+    storage.write('key', [{batch: batchOf('content-1'), storedAt: 1000}]);
+    expect(storage.read('key')).toEqual([{batch: batchOf('content-1'), storedAt: 1000}]);
+  });
+
+  it('removes the key once no entries are left', () => {
+    const storage = createLocalStorageOutboxAdapter();
+    storage.write('key', [{batch: batchOf('content-1'), storedAt: 1000}]);
+    storage.write('key', []);
+    expect(localStorage.getItem('key')).toBeNull();
+  });
+
+  it('ignores malformed entries', () => {
+    const storage = createLocalStorageOutboxAdapter();
+    localStorage.setItem('key', 'not json');
+    expect(storage.read('key')).toBeUndefined();
+
+    localStorage.setItem('key', JSON.stringify([{storedAt: 1000}, {batch: batchOf('content-1'), storedAt: 1000}]));
+    expect(storage.read('key')).toEqual([{batch: batchOf('content-1'), storedAt: 1000}]);
+  });
+});
+
+describe('createIndexedDbOutboxAdapter', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('falls back to localStorage where IndexedDB is unavailable', async () => {
+    expect(typeof indexedDB).toEqual('undefined');
+    const storage = createIndexedDbOutboxAdapter();
+    await storage.write('key', [{batch: batchOf('content-1'), storedAt: 1000}]);
+    expect(JSON.parse(localStorage.getItem('key') ?? '[]')).toEqual([{batch: batchOf('content-1'), storedAt: 1000}]);
+  });
+});
+
+describe('createOutbox', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays kept batches in the order they were added', async () => {
+    const storage = createMemoryStorage();
+    const outbox = createOutbox({key: 'key', storage});
+    const send = vi.fn(async () => {});
+
+    await outbox.add(batchOf('content-1'));
+    await outbox.add(batchOf('content-2'));
+    await outbox.replay(send);
+
+    expect(send.mock.calls).toEqual([[batchOf('content-1')], [batchOf('content-2')]]);
+    expect(storage.entries.get('key')).toEqual([]);
+  });
+
+  it('drops the oldest entries beyond the size limit', async () => {
+    const storage = createMemoryStorage();
+    const outbox = createOutbox({key: 'key', storage, config: {maxEntries: 2}});
+    const send = vi.fn(async () => {});
+
+    await outbox.add(batchOf('content-1'));
+    await outbox.add(batchOf('content-2'));
+    await outbox.add(batchOf('content-3'));
+    await outbox.replay(send);
+
+    expect(send.mock.calls).toEqual([[batchOf('content-2')], [batchOf('content-3')]]);
+  });
+
+  it('drops expired entries', async () => {
+    const storage = createMemoryStorage();
+    const outbox = createOutbox({key: 'key', storage, config: {maxAge: 60_000}});
+    const send = vi.fn(async () => {});
+
+    await outbox.add(batchOf('content-1'));
+    vi.setSystemTime(Date.now() + 30_000);
+    await outbox.add(batchOf('content-2'));
+    vi.setSystemTime(Date.now() + 40_000);
+    await outbox.replay(send);
+
+    expect(send.mock.calls).toEqual([[batchOf('content-2')]]);
+  });
+
+  it('stops replaying at the first batch that fails, keeping it and later batches', async () => {
+    const storage = createMemoryStorage();
+    const outbox = createOutbox({key: 'key', storage});
+    const send = vi.fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new WaveCxError('network', 'API request could not be sent'));
+
+    await outbox.add(batchOf('content-1'));
+    await outbox.add(batchOf('content-2'));
+    await outbox.add(batchOf('content-3'));
+    await outbox.replay(send);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(storage.entries.get('key')?.map((entry) => entry.batch))
+      .toEqual([batchOf('content-2'), batchOf('content-3')]);
+  });
+
+  it('drops batches whose session token was rejected', async () => {
+    const storage = createMemoryStorage();
+    const outbox = createOutbox({key: 'key', storage});
+    const send = vi.fn()
+      .mockRejectedValueOnce(new WaveCxError('token-expired', 'API request failed with status 401'))
+      .mockResolvedValue(undefined);
+
+    await outbox.add(batchOf('content-1', 'token-1'));
+    await outbox.add(batchOf('content-2', 'token-2'));
+    await outbox.replay(send);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(storage.entries.get('key')).toEqual([]);
+  });
+
+  it('drops all kept batches when cleared', async () => {
+    const storage = createMemoryStorage();
+    const outbox = createOutbox({key: 'key', storage});
+    const send = vi.fn(async () => {});
+
+    await outbox.add(batchOf('content-1'));
+    await outbox.clear();
+    await outbox.replay(send);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(storage.entries.get('key')).toEqual([]);
+  });
+
+  it('sends kept batches once when tabs sharing the storage replay at the same time', async () => {
+    // Grants locks of the same name one after another, like the Web Locks API
+    const heldLocks = new Map<string, Promise<unknown>>();
+    const request = vi.fn((name: string, callback: () => Promise<unknown>) => {
+      const granted = (heldLocks.get(name) ?? Promise.resolve()).then(callback);
+      heldLocks.set(name, granted.catch(() => undefined));
+      return granted;
+    });
+    Object.defineProperty(navigator, 'locks', {value: {request}, configurable: true});
+    try {
+      const storage = createMemoryStorage();
+      const firstTab = createOutbox({key: 'key', storage});
+      const secondTab = createOutbox({key: 'key', storage});
+      const send = vi.fn(async () => {});
+      await firstTab.add(batchOf('content-1'));
+
+      await Promise.all([firstTab.replay(send), secondTab.replay(send)]);
+
+      expect(request).toHaveBeenCalledWith('key', expect.any(Function));
+      expect(send.mock.calls).toEqual([[batchOf('content-1')]]);
+    } finally {
+      delete (navigator as { locks?: unknown }).locks;
+    }
+  });
+
+  it('ignores storage failures', async () => {
+    const debugLog = vi.fn();
+    const outbox = createOutbox({
+      key: 'key',
+      storage: {read: () => { throw new Error('storage unavailable'); }, write: () => {}},
+      debugLog,
+    });
+
+    await expect(outbox.add(batchOf('content-1'))).resolves.toBeUndefined();
+    expect(debugLog).toHaveBeenCalledWith('Offline outbox operation failed', expect.anything());
+  });
+});
@@ -0,0 +1,194 @@
+import {type TelemetryBatch} from './telemetry';
+import {type DebugLog} from './debug';
+import {isSessionTokenRejection} from './errors';
+
+export type OutboxEntry = {
+  batch: TelemetryBatch;
+  storedAt: number; // milliseconds since the epoch
+};
+
+/**
+ * Storage for events waiting to be sent, kept as a list in the order they were raised.
+ * Methods may be asynchronous so that stores such as IndexedDB can be used.
+ */
+export type OutboxStorageAdapter = {
+  read: (key: string) => OutboxEntry[] | undefined | Promise<OutboxEntry[] | undefined>;
+  write: (key: string, entries: OutboxEntry[]) => void | Promise<void>;
+};
+
+export type OfflineOutboxConfig = {
+  maxEntries?: number; // oldest entries are dropped beyond this (default: 100)
+  maxAge?: number; // milliseconds; older entries are dropped (default: 24 hours)
+  storage?: OutboxStorageAdapter; // default: IndexedDB, falling back to localStorage
+};
+
+export const defaultOutboxMaxEntries = 100;
+export const defaultOutboxMaxAge = 24 * 60 * 60 * 1000;
+
+export const getOutboxStorageKey = (organizationCode: string): string => `_wcx_outbox:${organizationCode}`;
+
+const isOutboxEntry = (entry: any): entry is OutboxEntry =>
+  typeof entry?.storedAt === 'number' && Array.isArray(entry.batch?.events);
+
+/**
+ * Creates an outbox storage adapter backed by localStorage.
+ */
+export const createLocalStorageOutboxAdapter = (): OutboxStorageAdapter => ({
+  read: (key) => {
+    const stored = localStorage.getItem(key);
+    if (!stored) return undefined;
+    try {
+      const entries = JSON.parse(stored);
+      return Array.isArray(entries) ? entries.filter(isOutboxEntry) : undefined;
+    } catch {
+      return undefined;
+    }
+  },
+  write: (key, entries) => {
+    if (entries.length === 0) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(entries));
+    }
+  },
+});
+
+const outboxDatabaseName = '_wcx_outbox';
+const outboxObjectStoreName = 'entries';
+
+const openOutboxDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(outboxDatabaseName, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(outboxObjectStoreName);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runOutboxRequest = <T>(
+  database: IDBDatabase,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => new Promise((resolve, reject) => {
+  const request = createRequest(database.transaction(outboxObjectStoreName, mode).objectStore(outboxObjectStoreName));
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Creates an outbox storage adapter backed by IndexedDB,
+ * falling back to localStorage where IndexedDB is unavailable (e.g. blocked in private browsing).
+ */
+export const createIndexedDbOutboxAdapter = (): OutboxStorageAdapter => {
+  const fallback = createLocalStorageOutboxAdapter();
+  if (typeof indexedDB === 'undefined') return fallback;
+
+  // Opened on first use; undefined when IndexedDB could not be opened
+  let database: Promise<IDBDatabase | undefined> | undefined = undefined;
+  const getDatabase = () => {
+    database ??= openOutboxDatabase().catch(() => undefined);
+    return database;
+  };
+
+  return {
+    read: async (key) => {
+      const db = await getDatabase();
+      if (!db) return fallback.read(key);
+      const entries = await runOutboxRequest(db, 'readonly', (store) => store.get(key));
+      return Array.isArray(entries) ? entries.filter(isOutboxEntry) : undefined;
+    },
+    write: async (key, entries) => {
+      const db = await getDatabase();
+      if (!db) return fallback.write(key, entries);
+      if (entries.length === 0) {
+        await runOutboxRequest(db, 'readwrite', (store) => store.delete(key));
+      } else {
+        await runOutboxRequest(db, 'readwrite', (store) => store.put(entries, key));
+      }
+    },
+  };
+};
+
+export type Outbox = {
+  /**
+   * Keeps a batch of events to be sent later, dropping expired and the oldest entries beyond the size limit
+   */
+  add: (batch: TelemetryBatch) => Promise<void>;
+  /**
+   * Sends kept batches in the order they were added, stopping at the first one that fails to send
+   */
+  replay: (send: (batch: TelemetryBatch) => Promise<void>) => Promise<void>;
+  /**
+   * Drops all kept batches, e.g. once the session they were raised in has ended
+   */
+  clear: () => Promise<void>;
+};
+
+/**
+ * Creates an outbox keeping events that could not be sent in the given storage, to be sent later.
+ * Operations run one after another, so events are kept and replayed in order. Where Web Locks are
+ * supported, each operation also holds a lock named by the key, so tabs sharing the storage don't
+ * replay the same entries.
+ */
+export function createOutbox(options: {
+  key: string;
+  config?: OfflineOutboxConfig;
+  storage: OutboxStorageAdapter;
+  debugLog?: DebugLog;
+}): Outbox {
+  const maxEntries = options.config?.maxEntries ?? defaultOutboxMaxEntries;
+  const maxAge = options.config?.maxAge ?? defaultOutboxMaxAge;
+  let pendingOperation: Promise<void> = Promise.resolve();
+
+  const withStorageLock = async (operation: () => Promise<void>): Promise<void> => {
+    if (typeof navigator === 'undefined' || !navigator.locks) return operation();
+    await navigator.locks.request(options.key, operation);
+  };
+
+  // Storage failures are logged and otherwise ignored, like failures to send the events themselves
+  const enqueue = (operation: () => Promise<void>): Promise<void> => {
+    pendingOperation = pendingOperation
+      .then(() => withStorageLock(operation))
+      .catch((error) => options.debugLog?.('Offline outbox operation failed', { error }));
+    return pendingOperation;
+  };
+
+  const readEntries = async (): Promise<OutboxEntry[]> => {
+    const entries = (await options.storage.read(options.key)) ?? [];
+    const now = Date.now();
+    return entries.filter((entry) => now - entry.storedAt <= maxAge);
+  };
+
+  return {
+    add: (batch) => enqueue(async () => {
+      const entries = [...await readEntries(), {batch, storedAt: Date.now()}];
+      const dropped = Math.max(entries.length - maxEntries, 0);
+      if (dropped > 0) options.debugLog?.('Offline outbox full, dropping oldest entries', { dropped });
+      await options.storage.write(options.key, entries.slice(dropped));
+      options.debugLog?.('Events kept in offline outbox', { count: batch.events.length });
+    }),
+    replay: (send) => enqueue(async () => {
+      const entries = await readEntries();
+      if (entries.length === 0) return;
+
+      options.debugLog?.('Replaying offline outbox', { count: entries.length });
+      let sent = 0;
+      for (const entry of entries) {
+        try {
+          await send(entry.batch);
+        } catch (error) {
+          // Events sent with a rejected session token can never be delivered
+          if (!isSessionTokenRejection(error)) {
+            options.debugLog?.('Replaying offline outbox failed', { remaining: entries.length - sent, error });
+            break;
+          }
+          options.debugLog?.('Dropping offline outbox entry with a rejected session token');
+        }
+        sent++;
+      }
+      await options.storage.write(options.key, entries.slice(sent));
+    }),
+    clear: () => enqueue(async () => {
+      await options.storage.write(options.key, []);
+      options.debugLog?.('Offline outbox cleared');
+    }),
+  };
+}
@@ -0,0 +1,56 @@
+import {describe, it, expect} from 'vitest';
+
+import {
+  checkPopupPolicy,
+  emptyPopupHistory,
+  getRemainingPopupAllowance,
+  recordPopupShown,
+} from './popup-policy';
+
+describe('checkPopupPolicy', () => {
+  it('allows popups when the policy is empty', () => {
+    const history = recordPopupShown(emptyPopupHistory, 'tp-1', 1000);
+    expect(checkPopupPolicy({}, history, 'tp-1', 1000)).toBeUndefined();
+  });
+
+  it('suppresses popups once the session maximum is reached', () => {
+    const history = recordPopupShown(recordPopupShown(emptyPopupHistory, 'tp-1', 0), 'tp-2', 0);
+
+    expect(checkPopupPolicy({maxPopupsPerSession: 3}, history, 'tp-3', 0)).toBeUndefined();
+    expect(checkPopupPolicy({maxPopupsPerSession: 2}, history, 'tp-3', 0)).toEqual('max-popups-per-session');
+  });
+
+  it('suppresses popups within the minimum interval of the last popup', () => {
+    const history = recordPopupShown(emptyPopupHistory, 'tp-1', 1000);
+
+    expect(checkPopupPolicy({minInterval: 5000}, history, 'tp-2', 5999)).toEqual('min-interval');
+    expect(checkPopupPolicy({minInterval: 5000}, history, 'tp-2', 6000)).toBeUndefined();
+  });
+
+  it('suppresses popups within a trigger point cooldown', () => {
+    const history = recordPopupShown(emptyPopupHistory, 'tp-1', 1000);
+
+    expect(checkPopupPolicy({triggerPointCooldown: 5000}, history, 'tp-1', 2000)).toEqual('trigger-point-cooldown');
+    expect(checkPopupPolicy({triggerPointCooldown: 5000}, history, 'tp-2', 2000)).toBeUndefined();
+  });
+
+  it('applies cooldowns configured per trigger point', () => {
+    const history = recordPopupShown(recordPopupShown(emptyPopupHistory, 'tp-1', 1000), 'tp-2', 1000);
+    const policy = {triggerPointCooldown: {'tp-1': 5000}};
+
+    expect(checkPopupPolicy(policy, history, 'tp-1', 2000)).toEqual('trigger-point-cooldown');
+    expect(checkPopupPolicy(policy, history, 'tp-2', 2000)).toBeUndefined();
+  });
+});
+
+describe('getRemainingPopupAllowance', () => {
+  it('is unlimited without a session maximum', () => {
+    expect(getRemainingPopupAllowance({}, emptyPopupHistory)).toEqual(Infinity);
+  });
+
+  it('counts down popups presented in the session', () => {
+    const history = recordPopupShown(emptyPopupHistory, 'tp-1', 0);
+    expect(getRemainingPopupAllowance({maxPopupsPerSession: 3}, history)).toEqual(2);
+    expect(getRemainingPopupAllowance({maxPopupsPerSession: 1}, history)).toEqual(0);
+  });
+});
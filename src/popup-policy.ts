@@ -0,0 +1,69 @@
+export type PopupPolicy = {
+  maxPopupsPerSession?: number;
+  minInterval?: number; // milliseconds between any two popups
+  triggerPointCooldown?: number | Record<string, number>; // milliseconds between popups for the same trigger point
+};
+
+export type PopupSuppressionReason =
+  | 'max-popups-per-session'
+  | 'min-interval'
+  | 'trigger-point-cooldown';
+
+export type PopupHistory = {
+  count: number;
+  lastShownAt?: number;
+  lastShownAtByTriggerPoint: Record<string, number>;
+};
+
+export const emptyPopupHistory: PopupHistory = {
+  count: 0,
+  lastShownAtByTriggerPoint: {},
+};
+
+export const recordPopupShown = (history: PopupHistory, triggerPoint: string, now: number): PopupHistory => ({
+  count: history.count + 1,
+  lastShownAt: now,
+  lastShownAtByTriggerPoint: {...history.lastShownAtByTriggerPoint, [triggerPoint]: now},
+});
+
+const getTriggerPointCooldown = (policy: PopupPolicy, triggerPoint: string): number | undefined =>
+  typeof policy.triggerPointCooldown === 'number'
+    ? policy.triggerPointCooldown
+    : policy.triggerPointCooldown?.[triggerPoint];
+
+/**
+ * Checks whether popups may be presented for a trigger point.
+ *
+ * @returns the reason popups are suppressed, or undefined if they may be presented
+ */
+export function checkPopupPolicy(
+  policy: PopupPolicy,
+  history: PopupHistory,
+  triggerPoint: string,
+  now: number,
+): PopupSuppressionReason | undefined {
+  if (policy.maxPopupsPerSession !== undefined && history.count >= policy.maxPopupsPerSession) {
+    return 'max-popups-per-session';
+  }
+  if (
+    policy.minInterval !== undefined
+    && history.lastShownAt !== undefined
+    && now - history.lastShownAt < policy.minInterval
+  ) {
+    return 'min-interval';
+  }
+  const cooldown = getTriggerPointCooldown(policy, triggerPoint);
+  const lastShownAt = history.lastShownAtByTriggerPoint[triggerPoint];
+  if (cooldown !== undefined && lastShownAt !== undefined && now - lastShownAt < cooldown) {
+    return 'trigger-point-cooldown';
+  }
+  return undefined;
+}
+
+/**
+ * Gets how many more popups may be presented in the session.
+ */
+export const getRemainingPopupAllowance = (policy: PopupPolicy, history: PopupHistory): number =>
+  policy.maxPopupsPerSession === undefined
+    ? Infinity
+    : Math.max(policy.maxPopupsPerSession - history.count, 0);
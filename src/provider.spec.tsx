@@ -1,10 +1,11 @@
-import {useEffect} from 'react';
-import {describe, it, expect, beforeAll, beforeEach} from 'vitest';
+import {StrictMode, useEffect} from 'react';
+import {describe, it, expect, beforeAll, beforeEach, vi} from 'vitest';
 import {render, screen, waitFor, type waitForOptions} from '@testing-library/react';
 import '@testing-library/jest-dom/vitest'
 
 import {useWaveCx, WaveCxProvider} from './provider';
-import {resetCoreState} from './core';
+import {createWaveCxClient, resetCoreState} from './core';
+import {WaveCxError} from './errors';
 
 const verifyNeverOccurs = async (negativeAssertionFn: () => unknown, options?: waitForOptions) => {
   await expect(
@@ -43,6 +44,7 @@ describe(WaveCxProvider.name, () => {
 
   beforeEach(() => {
     resetCoreState();
+    sessionStorage.clear();
   });
 
   it('renders provided child elements', () => {
@@ -695,4 +697,342 @@ describe(WaveCxProvider.name, () => {
       expect(screen.getByTestId('is-loading')).not.toBeChecked();
     });
   });
-});
\ No newline at end of file
+
+  it('uses a provided client instead of creating its own', async () => {
+    const client = createWaveCxClient({
+      organizationCode: 'org',
+      recordEvent: async () => ({
+        content: [{
+          type: 'featurette',
+          presentationType: 'button-triggered',
+          triggerPoint: 'trigger-point',
+          viewUrl: 'https://mock.content.com/embed',
+        }],
+      }),
+    });
+
+    const Consumer = () => {
+      const {hasContent} = useWaveCx();
+      return <p>{hasContent('trigger-point') ? 'has content' : 'no content'}</p>;
+    };
+
+    render(
+      <WaveCxProvider organizationCode={'org'} client={client}>
+        <Consumer/>
+      </WaveCxProvider>
+    );
+    expect(screen.getByText('no content')).toBeVisible();
+
+    await client.handleEvent({type: 'session-started', userId: 'test-id'});
+
+    await waitFor(() => {
+      expect(screen.getByText('has content')).toBeVisible();
+    });
+    client.destroy();
+  });
+
+  it('keeps state independent between providers given separate clients', async () => {
+    const widgetClient = createWaveCxClient({
+      organizationCode: 'org',
+      recordEvent: async () => ({
+        content: [{
+          type: 'featurette',
+          presentationType: 'button-triggered',
+          triggerPoint: 'trigger-point',
+          viewUrl: 'https://mock.content.com/embed',
+        }],
+      }),
+    });
+    const hostClient = createWaveCxClient({
+      organizationCode: 'org',
+      recordEvent: async () => ({content: []}),
+    });
+
+    const Consumer = (props: {label: string}) => {
+      const {handleEvent, hasContent} = useWaveCx();
+
+      useEffect(() => {
+        handleEvent({
+          type: 'session-started',
+          userId: 'test-id',
+        });
+      }, []);
+
+      return <p>{props.label}: {hasContent('trigger-point') ? 'has content' : 'no content'}</p>;
+    };
+
+    render(
+      <>
+        <WaveCxProvider organizationCode={'org'} client={widgetClient}>
+          <Consumer label={'widget'}/>
+        </WaveCxProvider>
+        <WaveCxProvider organizationCode={'org'} client={hostClient}>
+          <Consumer label={'host'}/>
+        </WaveCxProvider>
+      </>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('widget: has content')).toBeVisible();
+    });
+    expect(screen.getByText('host: no content')).toBeVisible();
+    widgetClient.destroy();
+    hostClient.destroy();
+  });
+
+  it('invokes lifecycle callback props with the latest props', async () => {
+    const shownTriggerPoints: string[] = [];
+
+    const Consumer = () => {
+      const {handleEvent} = useWaveCx();
+
+      useEffect(() => {
+        handleEvent({
+          type: 'session-started',
+          userId: 'test-id',
+        });
+        handleEvent({
+          type: 'trigger-point',
+          triggerPoint: 'trigger-point',
+        });
+      }, []);
+
+      return <></>;
+    };
+
+    const recordEvent = async () => ({
+      content: [{
+        type: 'featurette' as const,
+        presentationType: 'popup' as const,
+        triggerPoint: 'trigger-point',
+        viewUrl: 'https://mock.content.com/embed',
+      }],
+    });
+
+    const {rerender} = render(
+      <WaveCxProvider
+        organizationCode={'org'}
+        recordEvent={recordEvent}
+        onContentShown={() => shownTriggerPoints.push('stale')}
+      >
+        <Consumer/>
+      </WaveCxProvider>
+    );
+    rerender(
+      <WaveCxProvider
+        organizationCode={'org'}
+        recordEvent={recordEvent}
+        onContentShown={({triggerPoint}) => shownTriggerPoints.push(triggerPoint)}
+      >
+        <Consumer/>
+      </WaveCxProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByRole('dialog')).toBeVisible();
+    });
+    expect(shownTriggerPoints).toEqual(['trigger-point']);
+  });
+
+  it('provides the session start error and a retry action', async () => {
+    let shouldFail = true;
+
+    const Consumer = () => {
+      const {handleEvent, error, retry, hasContent} = useWaveCx();
+
+      useEffect(() => {
+        handleEvent({
+          type: 'session-started',
+          userId: 'test-id',
+        });
+      }, []);
+
+      return (
+        <>
+          <p>{error ? `error: ${error.code}` : 'no error'}</p>
+          <p>{hasContent('trigger-point') ? 'has content' : 'no content'}</p>
+          <button onClick={() => retry()}>Retry</button>
+        </>
+      );
+    };
+
+    render(
+      <WaveCxProvider
+        organizationCode={'org'}
+        recordEvent={async () => {
+          if (shouldFail) {
+            throw new WaveCxError('network', 'API request could not be sent');
+          }
+          return {
+            content: [{
+              type: 'featurette',
+              presentationType: 'button-triggered',
+              triggerPoint: 'trigger-point',
+              viewUrl: 'https://mock.content.com/embed',
+            }],
+          };
+        }}
+      >
+        <Consumer/>
+      </WaveCxProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('error: network')).toBeVisible();
+    });
+
+    shouldFail = false;
+    screen.getByText('Retry').click();
+
+    await waitFor(() => {
+      expect(screen.getByText('no error')).toBeVisible();
+    });
+    expect(screen.getByText('has content')).toBeVisible();
+  });
+
+  describe('unmounting', () => {
+    const countWindowListeners = () => {
+      const added = vi.spyOn(window, 'addEventListener');
+      const removed = vi.spyOn(window, 'removeEventListener');
+      const count = (type: string) =>
+        added.mock.calls.filter(([t]) => t === type).length - removed.mock.calls.filter(([t]) => t === type).length;
+      return {count, restore: () => { added.mockRestore(); removed.mockRestore(); }};
+    };
+
+    it('releases the cross-tab channel and window listeners of its client', () => {
+      // Without BroadcastChannel, the cross-tab channel listens for storage events
+      vi.stubGlobal('BroadcastChannel', undefined);
+      const listeners = countWindowListeners();
+      try {
+        for (let i = 0; i < 3; i++) {
+          const {unmount} = render(
+            <WaveCxProvider organizationCode={'org'} crossTabSync sendTelemetry offlineOutbox={{}}>
+              <p>mounted</p>
+            </WaveCxProvider>
+          );
+          unmount();
+        }
+
+        expect(listeners.count('storage')).toBe(0);
+        expect(listeners.count('online')).toBe(0);
+      } finally {
+        listeners.restore();
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('keeps its client working when effects are remounted in strict mode', async () => {
+      vi.stubGlobal('BroadcastChannel', undefined);
+      const listeners = countWindowListeners();
+      try {
+        const Consumer = () => {
+          const {handleEvent, hasContent} = useWaveCx();
+          useEffect(() => {
+            handleEvent({type: 'session-started', userId: 'test-id'});
+          }, []);
+          return <p>{hasContent('trigger-point') ? 'has content' : 'no content'}</p>;
+        };
+
+        const {unmount} = render(
+          <StrictMode>
+            <WaveCxProvider
+              organizationCode={'org'}
+              crossTabSync
+              recordEvent={async () => ({
+                content: [{
+                  type: 'featurette',
+                  presentationType: 'button-triggered',
+                  triggerPoint: 'trigger-point',
+                  viewUrl: 'https://mock.content.com/embed',
+                }],
+              })}
+            >
+              <Consumer/>
+            </WaveCxProvider>
+          </StrictMode>
+        );
+
+        await waitFor(() => {
+          expect(screen.getByText('has content')).toBeVisible();
+        });
+        expect(listeners.count('storage')).toBe(1);
+
+        unmount();
+        expect(listeners.count('storage')).toBe(0);
+      } finally {
+        listeners.restore();
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('stops session updates once the last provider unmounts', async () => {
+      const Consumer = () => {
+        const {handleEvent} = useWaveCx();
+        useEffect(() => {
+          handleEvent({type: 'session-started', userId: 'test-id'});
+        }, []);
+        return <p>consumer</p>;
+      };
+      const recordEvent = vi.fn(async () => ({sessionToken: 'token', content: []}));
+      const refreshCount = () => recordEvent.mock.calls
+        .filter((call) => (call as unknown as [{type: string}])[0].type === 'session-refresh').length;
+
+      const first = render(
+        <WaveCxProvider organizationCode={'org'} recordEvent={recordEvent} contentRefresh={{interval: 20}}>
+          <Consumer/>
+        </WaveCxProvider>
+      );
+      const second = render(
+        <WaveCxProvider organizationCode={'org'} recordEvent={recordEvent} contentRefresh={{interval: 20}}>
+          <p>other provider</p>
+        </WaveCxProvider>
+      );
+      await waitFor(() => expect(refreshCount()).toBeGreaterThan(0));
+
+      first.unmount();
+      const refreshesWhileMounted = refreshCount();
+      await waitFor(() => expect(refreshCount()).toBeGreaterThan(refreshesWhileMounted));
+
+      second.unmount();
+      const refreshesOnUnmount = refreshCount();
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(refreshCount()).toBe(refreshesOnUnmount);
+    });
+
+    it('keeps state shared with other providers', async () => {
+      const Consumer = () => {
+        const {handleEvent, hasContent} = useWaveCx();
+        useEffect(() => {
+          handleEvent({type: 'session-started', userId: 'test-id'});
+        }, []);
+        return <p>{hasContent('trigger-point') ? 'has content' : 'no content'}</p>;
+      };
+      const recordEvent = async () => ({
+        content: [{
+          type: 'featurette' as const,
+          presentationType: 'button-triggered' as const,
+          triggerPoint: 'trigger-point',
+          viewUrl: 'https://mock.content.com/embed',
+        }],
+      });
+
+      render(
+        <WaveCxProvider organizationCode={'org'} recordEvent={recordEvent}>
+          <Consumer/>
+        </WaveCxProvider>
+      );
+      const {unmount} = render(
+        <WaveCxProvider organizationCode={'org'} recordEvent={recordEvent}>
+          <p>other provider</p>
+        </WaveCxProvider>
+      );
+      await waitFor(() => {
+        expect(screen.getByText('has content')).toBeVisible();
+      });
+
+      unmount();
+
+      expect(screen.getByText('has content')).toBeVisible();
+    });
+  });
+});
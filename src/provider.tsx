@@ -1,6 +1,7 @@
 import {
   createContext,
   useContext,
+  useEffect,
   useLayoutEffect,
   useMemo,
   useReducer,
@@ -8,24 +9,39 @@ import {
   type ReactNode,
 } from 'react';
 
-import {type FireTargetedContentEvent} from './targeted-content';
-import {type InitiateSession} from './sessions';
+import {type FireTargetedContentEvent, type TargetedContent} from './targeted-content';
+import {type InitiateSession, type SessionStore} from './sessions';
 import {type RetryConfig} from './retry';
 import {type MockModeConfig} from './mock-mode';
+import {type PopupPolicy} from './popup-policy';
+import {type ContentRefreshConfig} from './content-refresh';
+import {type ContentStreamTransport} from './content-stream';
+import {type OfflineContentConfig} from './content-store';
+import {type SendTelemetry} from './telemetry';
+import {type TelemetryBatchConfig} from './telemetry-batch';
+import {type OfflineOutboxConfig} from './outbox';
+import {type WaveCxError} from './errors';
+import {isBrowser} from './environment';
 import {
   type EventHandler,
   type ContentFetchStrategy,
-  createHandleEvent,
-  subscribe,
-  hasContent,
-  hasPopupContentForTriggerPoint,
-  getContentCache,
-  getIsContentLoading,
-  getActiveTriggerPoint,
+  type WaveCxClient,
+  type LifecycleCallbacks,
+  type DismissCallback,
+  createSharedWaveCxClient,
+  createWaveCxClient,
 } from './core';
 
 export type {ContentFetchStrategy};
-export {type Event, type EventHandler} from './core';
+export {
+  type Event,
+  type EventHandler,
+  type WaveCxClient,
+  type CoreConfig,
+  type LifecycleCallbacks,
+  type ContentDetails,
+  type DismissCallback,
+} from './core';
 
 export interface WaveCxContextInterface {
   handleEvent: EventHandler;
@@ -41,6 +57,20 @@ export interface WaveCxContextInterface {
    * @returns true if content is available
    */
   hasContent: (triggerPoint: string, presentationType?: 'popup' | 'button-triggered') => boolean;
+  /**
+   * Present the content with the given ID, regardless of trigger point.
+   *
+   * @param contentId - ID of the content to present
+   * @param onContentDismissed - Optional callback invoked when the content is dismissed
+   * @returns true if the content was found and presented
+   */
+  showContent: (contentId: string, onContentDismissed?: DismissCallback) => boolean;
+  /**
+   * Check if content has been presented during the current session.
+   *
+   * @param contentId - ID of the content to check
+   */
+  hasSeen: (contentId: string) => boolean;
   /**
    * Indicates if button-triggered content is available for the LAST FIRED trigger point.
    *
@@ -53,27 +83,72 @@ export interface WaveCxContextInterface {
    * Useful for showing loading spinners during initial content fetch.
    */
   isContentLoading: boolean;
+  /**
+   * The error from the most recent failed session start, if any.
+   * Distinguishes "WaveCX is unavailable" from "no content for this user".
+   */
+  error: WaveCxError | undefined;
+  /**
+   * Retries the most recent failed session start.
+   */
+  retry: () => Promise<void>;
+  /**
+   * Milliseconds until the session token expires, or undefined when there is no session token.
+   * The token is renewed shortly before it expires.
+   */
+  getSessionTokenLifetime: () => number | undefined;
 }
 
+// useLayoutEffect warns during server rendering; effects never run there anyway
+const useIsomorphicLayoutEffect = isBrowser() ? useLayoutEffect : useEffect;
+
 export const WaveCxContext = createContext<WaveCxContextInterface>({
   handleEvent: () => undefined,
   hasPopupContentForTriggerPoint: () => false,
   hasContent: () => false,
+  showContent: () => false,
+  hasSeen: () => false,
   hasUserTriggeredContent: false,
   isContentLoading: false,
+  error: undefined,
+  retry: async () => undefined,
+  getSessionTokenLifetime: () => undefined,
 });
 
-export const WaveCxProvider = (props: {
+export const WaveCxProvider = (props: LifecycleCallbacks & {
   organizationCode: string;
   children?: ReactNode;
   apiBaseUrl?: string;
   recordEvent?: FireTargetedContentEvent;
   initiateSession?: InitiateSession;
+  /**
+   * Where session state is kept; keys are namespaced by organization code (default: sessionStorage)
+   */
+  sessionStore?: SessionStore;
   /**
    * @deprecated This prop no longer has any effect. Modal rendering is handled internally.
    */
   portalParent?: Element;
   disablePopupContent?: boolean;
+  /**
+   * Stops reporting reached trigger points to the API for analytics
+   */
+  disableTriggerPointReporting?: boolean;
+  /**
+   * Sends batches of content telemetry events (views and dismissals); off when omitted.
+   * `true` sends them to the telemetry endpoint of `apiBaseUrl`.
+   */
+  sendTelemetry?: boolean | SendTelemetry;
+  /**
+   * When buffered telemetry events and trigger point reports are sent (default: 20 events or after 5 seconds)
+   */
+  telemetryBatch?: TelemetryBatchConfig;
+  /**
+   * Keeps trigger point reports and telemetry events that could not be sent (e.g. while offline)
+   * and sends them once back online.
+   * Off when omitted.
+   */
+  offlineOutbox?: OfflineOutboxConfig;
   /**
    * @deprecated This prop no longer has any effect. Content is always fetched at session start.
    */
@@ -81,46 +156,136 @@ export const WaveCxProvider = (props: {
   debugMode?: boolean;
   retryConfig?: RetryConfig;
   mockModeConfig?: MockModeConfig;
+  /**
+   * Milliseconds before the session token expires at which it is renewed (default: 60000),
+   * at most half of the token's lifetime
+   */
+  tokenRenewalLeadTime?: number;
+  /**
+   * Limits how often popup content is presented during a session
+   */
+  popupPolicy?: PopupPolicy;
+  /**
+   * Refreshes content in the background while a session is active; off when omitted
+   */
+  contentRefresh?: ContentRefreshConfig;
+  /**
+   * Pushes content changes for the session once a session token is obtained; off when omitted.
+   * `true` receives Server-Sent Events from `apiBaseUrl`.
+   */
+  contentStream?: boolean | ContentStreamTransport;
+  /**
+   * Shares session starts and ends, and popup consumption, with other tabs of the same origin
+   */
+  crossTabSync?: boolean;
+  /**
+   * Persists the last content fetched for each user, serving it at session start while fresh content is fetched.
+   * Off when omitted.
+   */
+  offlineContent?: OfflineContentConfig;
+  /**
+   * Content fetched on the server for the current user.
+   * Available immediately on render, and the next session start skips its API request.
+   */
+  initialContent?: TargetedContent[];
+  /**
+   * Session token returned alongside `initialContent`
+   */
+  initialSessionToken?: string;
+  /**
+   * Lifetime of `initialSessionToken` in seconds (default: 3600)
+   */
+  initialSessionExpiresIn?: number;
+  /**
+   * User `initialContent` was fetched for; a session started for another user fetches its own content
+   */
+  initialUserId?: string;
+  /**
+   * Client instance to use instead of one created from the other props.
+   * Supplying a client lets several providers (or non-React code) share one instance.
+   * When set, configuration props such as `recordEvent` are ignored.
+   */
+  client?: WaveCxClient;
 }) => {
   const [, forceRender] = useReducer((x: number) => x + 1, 0);
 
-  useLayoutEffect(() => {
-    return subscribe(forceRender);
-  }, []);
+  // Callbacks are read through a ref so the latest props are used without recreating the client
+  const callbacksRef = useRef<LifecycleCallbacks>(props);
+  callbacksRef.current = props;
 
-  // Create handleEvent once on mount. It reads shared module-level state
-  // so it doesn't need to be recreated when props change.
-  const handleEventRef = useRef<EventHandler | null>(null);
-  if (!handleEventRef.current) {
-    handleEventRef.current = createHandleEvent({
+  // Use the provided client, or create one on mount backed by state shared between providers.
+  // It reads shared module-level state so it doesn't need to be recreated when props change.
+  // On the server, module-level state would be shared between requests, so an isolated client is used.
+  const ownedClientRef = useRef<WaveCxClient | null>(null);
+  if (!props.client && !ownedClientRef.current) {
+    const createClient = isBrowser() ? createSharedWaveCxClient : createWaveCxClient;
+    ownedClientRef.current = createClient({
       organizationCode: props.organizationCode,
       apiBaseUrl: props.apiBaseUrl,
       recordEvent: props.recordEvent,
       initiateSession: props.initiateSession,
+      sessionStore: props.sessionStore,
       disablePopupContent: props.disablePopupContent,
+      disableTriggerPointReporting: props.disableTriggerPointReporting,
+      sendTelemetry: props.sendTelemetry,
+      telemetryBatch: props.telemetryBatch,
+      offlineOutbox: props.offlineOutbox,
       debugMode: props.debugMode,
       retryConfig: props.retryConfig,
       mockModeConfig: props.mockModeConfig,
+      tokenRenewalLeadTime: props.tokenRenewalLeadTime,
+      popupPolicy: props.popupPolicy,
+      contentRefresh: props.contentRefresh,
+      contentStream: props.contentStream,
+      crossTabSync: props.crossTabSync,
+      offlineContent: props.offlineContent,
+      initialContent: props.initialContent,
+      initialSessionToken: props.initialSessionToken,
+      initialSessionExpiresIn: props.initialSessionExpiresIn,
+      initialUserId: props.initialUserId,
+      onContentShown: (details) => callbacksRef.current.onContentShown?.(details),
+      onContentDismissed: (details) => callbacksRef.current.onContentDismissed?.(details),
+      onContentRejected: (details) => callbacksRef.current.onContentRejected?.(details),
+      onContentSuppressed: (details) => callbacksRef.current.onContentSuppressed?.(details),
+      onIframeLoaded: (details) => callbacksRef.current.onIframeLoaded?.(details),
+      onSessionStarted: (details) => callbacksRef.current.onSessionStarted?.(details),
+      onSessionError: (details) => callbacksRef.current.onSessionError?.(details),
     });
   }
+  const client = props.client ?? ownedClientRef.current!;
 
-  const cache = getContentCache();
-  const loading = getIsContentLoading();
-  const triggerPoint = getActiveTriggerPoint();
-  const hasUserTriggered = triggerPoint !== undefined && cache.some(c =>
-    c.triggerPoint === triggerPoint
-    && c.presentationType === 'button-triggered'
-  );
+  useIsomorphicLayoutEffect(() => {
+    return client.subscribe(forceRender);
+  }, [client]);
+
+  // A client created here is connected while mounted and released on unmount;
+  // `destroy` would also tear down state other providers share
+  useEffect(() => {
+    if (props.client) return undefined;
+    client.connect();
+    return () => client.release();
+  }, [client]);
+
+  const cache = client.getContentCache();
+  const loading = client.getIsContentLoading();
+  const error = client.getError();
+  const triggerPoint = client.getActiveTriggerPoint();
+  const hasUserTriggered = triggerPoint !== undefined && client.hasContent(triggerPoint, 'button-triggered');
 
   const contextValue = useMemo(
     () => ({
-      handleEvent: handleEventRef.current!,
-      hasPopupContentForTriggerPoint,
-      hasContent,
+      handleEvent: client.handleEvent,
+      hasPopupContentForTriggerPoint: client.hasPopupContentForTriggerPoint,
+      hasContent: client.hasContent,
+      showContent: client.showContent,
+      hasSeen: client.hasSeen,
       hasUserTriggeredContent: hasUserTriggered,
       isContentLoading: loading,
+      error,
+      retry: client.retry,
+      getSessionTokenLifetime: client.getSessionTokenLifetime,
     }),
-    [hasUserTriggered, cache, loading],
+    [client, hasUserTriggered, cache, loading, error],
   );
 
   return (
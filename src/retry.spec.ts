@@ -21,6 +21,17 @@ describe('retryWithBackoff', () => {
     expect(fn).toHaveBeenCalledTimes(1);
   });
 
+  it('does not retry failures rejected by shouldRetry', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('Permanent failure'));
+
+    const resultPromise = retryWithBackoff(fn, defaultRetryConfig, undefined, () => false);
+    const assertion = expect(resultPromise).rejects.toThrow('Permanent failure');
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
   it('retries on failure and eventually succeeds', async () => {
     const fn = vi.fn()
       .mockRejectedValueOnce(new Error('Attempt 1 failed'))
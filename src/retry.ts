@@ -19,12 +19,14 @@ const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
  * @param fn Function to retry
  * @param config Retry configuration
  * @param debugLog Optional debug logging function
+ * @param shouldRetry Optional check whether a failure may be retried; other failures are thrown right away
  * @returns Result of the function
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   config: RetryConfig = defaultRetryConfig,
-  debugLog?: (message: string, data?: any) => void
+  debugLog?: (message: string, data?: any) => void,
+  shouldRetry: (error: unknown) => boolean = () => true,
 ): Promise<T> {
   let lastError: Error | unknown;
   let delay = config.initialDelay;
@@ -36,6 +38,10 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error;
 
+      if (!shouldRetry(error)) {
+        debugLog?.(`Attempt ${attempt} failed, not retrying`, { error });
+        break;
+      }
       if (attempt < config.maxAttempts) {
         debugLog?.(`Attempt ${attempt} failed, retrying in ${delay}ms`, { error });
         await sleep(delay);
@@ -0,0 +1,146 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest';
+
+import {
+  createCookieSessionStore,
+  createLocalStorageSessionStore,
+  createMemorySessionStore,
+  createSessionManager,
+  type SessionStore,
+} from './sessions';
+
+const createAsyncStore = (initial: Record<string, string> = {}) => {
+  const values = new Map(Object.entries(initial));
+  const store: SessionStore = {
+    getItem: async (key) => values.get(key) ?? null,
+    setItem: async (key, value) => { values.set(key, value); },
+    removeItem: async (key) => { values.delete(key); },
+  };
+  return {store, values};
+};
+
+describe('createSessionManager', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('stores session tokens in sessionStorage by default', () => {
+    const sessions = createSessionManager({organizationCode: 'org'});
+    sessions.storeSessionToken('token', 3600);
+
+    expect(sessions.readSessionToken()).toEqual('token');
+    expect(sessionStorage.getItem('_wcx_org_st')).toEqual('token');
+  });
+
+  it('stores the user a token was issued for', () => {
+    const sessions = createSessionManager({organizationCode: 'org'});
+    sessions.storeSessionToken('token', 3600, 'user-1');
+    expect(sessions.readSessionTokenOwner()).toEqual({organizationCode: 'org', userId: 'user-1'});
+
+    sessions.storeSessionToken('other-token', 3600);
+    expect(sessions.readSessionTokenOwner()).toBeNull();
+
+    sessions.bindSessionToken('user-2');
+    expect(sessions.readSessionTokenOwner()).toEqual({organizationCode: 'org', userId: 'user-2'});
+
+    sessions.clearSessionToken();
+    expect(sessions.readSessionTokenOwner()).toBeNull();
+  });
+
+  it('namespaces keys by organization code', () => {
+    const first = createSessionManager({organizationCode: 'org-1'});
+    const second = createSessionManager({organizationCode: 'org-2'});
+    first.storeSessionToken('token-1', 3600);
+    first.storeConsumedContentId('content-1');
+
+    expect(second.readSessionToken()).toBeNull();
+    expect(second.readConsumedContentIds()).toEqual([]);
+
+    second.clearSessionToken();
+    expect(first.readSessionToken()).toEqual('token-1');
+  });
+
+  it('clears expired tokens along with consumed content', () => {
+    vi.useFakeTimers({toFake: ['Date']});
+    try {
+      const sessions = createSessionManager({organizationCode: 'org'});
+      sessions.storeSessionToken('token', 60);
+      sessions.storeConsumedContentId('content-1');
+
+      vi.advanceTimersByTime(60_000);
+
+      expect(sessions.readSessionToken()).toBeNull();
+      expect(sessions.readSessionTokenExpiration()).toBeNull();
+      expect(sessions.readConsumedContentIds()).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('stores popup history until the session token is cleared', () => {
+    const sessions = createSessionManager({organizationCode: 'org'});
+    const history = {count: 1, lastShownAt: 1000, lastShownAtByTriggerPoint: {'tp-1': 1000}};
+    sessions.storeSessionToken('token', 3600);
+    sessions.storePopupHistory(history);
+
+    expect(createSessionManager({organizationCode: 'org'}).readPopupHistory()).toEqual(history);
+
+    sessions.clearSessionToken();
+    expect(sessions.readPopupHistory()).toEqual({count: 0, lastShownAtByTriggerPoint: {}});
+  });
+
+  it('generates a device ID once and keeps it when the session token is cleared', () => {
+    const sessions = createSessionManager({organizationCode: 'org'});
+    const deviceId = sessions.getDeviceId();
+    sessions.storeSessionToken('token', 3600, deviceId);
+
+    sessions.clearSessionToken();
+
+    expect(deviceId).not.toEqual('');
+    expect(sessions.getDeviceId()).toEqual(deviceId);
+    expect(createSessionManager({organizationCode: 'org'}).getDeviceId()).toEqual(deviceId);
+    expect(createSessionManager({organizationCode: 'other-org'}).getDeviceId()).not.toEqual(deviceId);
+  });
+
+  it('loads values from asynchronous stores before they are ready', async () => {
+    const expiration = new Date(Date.now() + 60_000).toISOString();
+    const {store} = createAsyncStore({_wcx_org_st: 'token', _wcx_org_st_exp: expiration});
+    const sessions = createSessionManager({organizationCode: 'org', store});
+
+    expect(sessions.isReady()).toBe(false);
+    await sessions.ready;
+
+    expect(sessions.isReady()).toBe(true);
+    expect(sessions.readSessionToken()).toEqual('token');
+  });
+
+  it('persists writes to asynchronous stores', async () => {
+    const {store, values} = createAsyncStore();
+    const sessions = createSessionManager({organizationCode: 'org', store});
+    await sessions.ready;
+
+    sessions.storeSessionToken('token', 3600);
+    sessions.storeConsumedContentId('content-1');
+    expect(sessions.readSessionToken()).toEqual('token');
+
+    await vi.waitFor(() => expect(values.get('_wcx_org_cc')).toEqual('["content-1"]'));
+    expect(values.get('_wcx_org_st')).toEqual('token');
+
+    sessions.clearSessionToken();
+    await vi.waitFor(() => expect(values.size).toBe(0));
+  });
+});
+
+describe('session stores', () => {
+  it.each([
+    ['memory', createMemorySessionStore],
+    ['localStorage', createLocalStorageSessionStore],
+    ['cookie', () => createCookieSessionStore({secure: false})],
+  ])('%s store reads written values', (_name, createStore) => {
+    const store = createStore();
+    store.setItem('_wcx_org_st', 'token value');
+    expect(store.getItem('_wcx_org_st')).toEqual('token value');
+
+    store.removeItem('_wcx_org_st');
+    expect(store.getItem('_wcx_org_st')).toBeNull();
+  });
+});
@@ -1,75 +1,363 @@
+import {isBrowser} from './environment';
+import {emptyPopupHistory, type PopupHistory} from './popup-policy';
+
 export type SessionToken = string;
 
-const TOKEN_KEY = '_wcx_st';
-const EXPIRATION_KEY = '_wcx_st_exp';
+/**
+ * The user a session token was issued for
+ */
+export type SessionTokenOwner = {
+  organizationCode: string;
+  userId: string;
+};
 
-// In-memory fallback when sessionStorage is unavailable
-let inMemoryToken: SessionToken | null = null;
-let inMemoryExpiration: Date | null = null;
+/**
+ * Key-value storage for session state.
+ * Methods may be asynchronous, e.g. to wrap encrypted storage.
+ */
+export type SessionStore = {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+};
 
-export const storeSessionToken = (token: SessionToken, expiresIn: number) => {
-  const expirationDate = new Date(Date.now() + expiresIn * 1000);
+/**
+ * Creates a session store keeping values in memory; they do not persist across page reloads.
+ */
+export const createMemorySessionStore = (): SessionStore => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => { values.set(key, value); },
+    removeItem: (key) => { values.delete(key); },
+  };
+};
 
-  try {
-    // Try sessionStorage first
-    sessionStorage.setItem(TOKEN_KEY, token);
-    sessionStorage.setItem(EXPIRATION_KEY, expirationDate.toISOString());
-  } catch (error) {
-    // Fallback to in-memory storage
+const createWebStorageSessionStore = (getStorage: () => Storage, name: string): SessionStore => {
+  // In-memory fallback when the storage is unavailable
+  const fallback = createMemorySessionStore();
+  let hasWarned = false;
+  const warn = (error: unknown) => {
+    if (hasWarned) return;
+    hasWarned = true;
     console.warn(
-      '[WaveCx] sessionStorage unavailable (private browsing or blocked).'
+      `[WaveCx] ${name} unavailable (private browsing or blocked).`
       + ' Using in-memory storage - session will not persist across page reloads.',
       error,
     );
-    inMemoryToken = token;
-    inMemoryExpiration = expirationDate;
-  }
-}
+  };
 
-export const clearSessionToken = () => {
-  // Clear in-memory storage
-  inMemoryToken = null;
-  inMemoryExpiration = null;
-
-  try {
-    // Try to clear sessionStorage
-    sessionStorage.removeItem(TOKEN_KEY);
-    sessionStorage.removeItem(EXPIRATION_KEY);
-  } catch (error) {
-    // sessionStorage not available, but in-memory already cleared
-    console.warn('[WaveCx] sessionStorage unavailable, cleared in-memory session.', error);
-  }
+  return {
+    getItem: (key) => {
+      try {
+        return getStorage().getItem(key);
+      } catch {
+        return fallback.getItem(key);
+      }
+    },
+    setItem: (key, value) => {
+      try {
+        getStorage().setItem(key, value);
+      } catch (error) {
+        warn(error);
+        return fallback.setItem(key, value);
+      }
+    },
+    removeItem: (key) => {
+      fallback.removeItem(key);
+      try {
+        getStorage().removeItem(key);
+      } catch {
+        // storage not available, but in-memory already cleared
+      }
+    },
+  };
 };
 
-export const readSessionToken = (): SessionToken | null => {
-  try {
-    // Try sessionStorage first
-    const expirationDateStr = sessionStorage.getItem(EXPIRATION_KEY);
-    const expirationDate = expirationDateStr ? new Date(expirationDateStr) : new Date();
+/**
+ * Creates a session store backed by sessionStorage, falling back to memory when it is unavailable.
+ */
+export const createSessionStorageSessionStore = (): SessionStore =>
+  createWebStorageSessionStore(() => sessionStorage, 'sessionStorage');
+
+/**
+ * Creates a session store backed by localStorage, falling back to memory when it is unavailable.
+ * Sessions are shared between tabs and persist after the browser is closed.
+ */
+export const createLocalStorageSessionStore = (): SessionStore =>
+  createWebStorageSessionStore(() => localStorage, 'localStorage');
+
+/**
+ * Creates a session store backed by cookies, e.g. to share a session between subdomains.
+ */
+export const createCookieSessionStore = (options: {
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  sameSite?: 'strict' | 'lax' | 'none';
+} = {}): SessionStore => {
+  const attributes = [
+    `path=${options.path ?? '/'}`,
+    options.domain ? `domain=${options.domain}` : undefined,
+    (options.secure ?? true) ? 'secure' : undefined,
+    `samesite=${options.sameSite ?? 'lax'}`,
+  ].filter(Boolean).join('; ');
+
+  return {
+    getItem: (key) => {
+      const prefix = `${encodeURIComponent(key)}=`;
+      const cookie = document.cookie.split('; ').find((c) => c.startsWith(prefix));
+      return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+    },
+    setItem: (key, value) => {
+      document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}; ${attributes}`;
+    },
+    removeItem: (key) => {
+      document.cookie = `${encodeURIComponent(key)}=; max-age=0; ${attributes}`;
+    },
+  };
+};
+
+const generateDeviceId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Shared by every client without a configured store, so its in-memory fallback is shared too
+const defaultSessionStore = createSessionStorageSessionStore();
+
+export type SessionManager = {
+  /**
+   * Resolves once values from an asynchronous store have been loaded
+   */
+  ready: Promise<void>;
+  isReady: () => boolean;
+  /**
+   * Stores a session token, along with the user it was issued for when known.
+   */
+  storeSessionToken: (token: SessionToken, expiresIn: number, userId?: string) => void;
+  readSessionToken: () => SessionToken | null;
+  readSessionTokenOwner: () => SessionTokenOwner | null;
+  /**
+   * Records the user a stored session token of unknown owner was issued for.
+   */
+  bindSessionToken: (userId: string) => void;
+  /**
+   * Gets when the stored session token expires, or null when there is no valid token.
+   */
+  readSessionTokenExpiration: () => Date | null;
+  /**
+   * Clears the session token along with the content consumed and the popups presented during the session.
+   */
+  clearSessionToken: () => void;
+  /**
+   * Records popup content as consumed for the rest of the session, so it isn't presented again after a reload.
+   */
+  storeConsumedContentId: (contentId: string) => void;
+  readConsumedContentIds: () => string[];
+  /**
+   * Records the popups presented during the session, so popup policy limits hold across reloads.
+   */
+  storePopupHistory: (history: PopupHistory) => void;
+  readPopupHistory: () => PopupHistory;
+  /**
+   * Gets the ID identifying this device in anonymous sessions, generating one on first use.
+   * The device ID is kept when session tokens are cleared.
+   */
+  getDeviceId: () => string;
+};
+
+/**
+ * Creates a manager for the session state of an organization, kept in the given store
+ * (sessionStorage by default) under keys namespaced by the organization code.
+ *
+ * Synchronous stores are read directly. Values of asynchronous stores are loaded once into memory;
+ * writes update memory immediately and are persisted in order.
+ */
+export function createSessionManager(options: {
+  organizationCode: string;
+  store?: SessionStore;
+}): SessionManager {
+  const store = options.store ?? defaultSessionStore;
+  const keyPrefix = `_wcx_${options.organizationCode}_`;
+  const tokenKey = `${keyPrefix}st`;
+  const expirationKey = `${keyPrefix}st_exp`;
+  const ownerKey = `${keyPrefix}st_owner`;
+  const consumedContentKey = `${keyPrefix}cc`;
+  const popupHistoryKey = `${keyPrefix}ph`;
+  const deviceIdKey = `${keyPrefix}did`;
+
+  const loadedValues = new Map<string, string | null>();
+  let isAsyncStore = false;
+  let isLoaded = true;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const persist = (write: () => void | Promise<void>) => {
+    if (!isAsyncStore) {
+      void write();
+      return;
+    }
+    pendingWrite = pendingWrite
+      .then(write)
+      .catch((error) => console.warn('[WaveCx] Session store write failed.', error));
+  };
+
+  const getItem = (key: string): string | null =>
+    isAsyncStore ? loadedValues.get(key) ?? null : store.getItem(key) as string | null;
+
+  const setItem = (key: string, value: string) => {
+    loadedValues.set(key, value);
+    persist(() => store.setItem(key, value));
+  };
+
+  const removeItem = (key: string) => {
+    loadedValues.set(key, null);
+    persist(() => store.removeItem(key));
+  };
+
+  const load = (): Promise<void> => {
+    // Never read stores during server rendering
+    if (!isBrowser()) return Promise.resolve();
 
+    const keys = [tokenKey, expirationKey, ownerKey, consumedContentKey, popupHistoryKey, deviceIdKey];
+    const values = keys.map((key) => store.getItem(key));
+    if (!values.some((value) => value instanceof Promise)) return Promise.resolve();
+
+    isAsyncStore = true;
+    isLoaded = false;
+    return Promise.all(values)
+      .then((loaded) => {
+        keys.forEach((key, i) => {
+          // Values written while loading are newer than the loaded ones
+          if (!loadedValues.has(key)) loadedValues.set(key, loaded[i]);
+        });
+      })
+      .catch((error) => console.warn('[WaveCx] Session store could not be read.', error))
+      .finally(() => {
+        isLoaded = true;
+      });
+  };
+
+  const clearSessionToken = () => {
+    if (!isBrowser()) return;
+    removeItem(tokenKey);
+    removeItem(expirationKey);
+    removeItem(ownerKey);
+    removeItem(consumedContentKey);
+    removeItem(popupHistoryKey);
+  };
+
+  const readSessionToken = (): SessionToken | null => {
+    if (!isBrowser()) return null;
+
+    const expirationDateStr = getItem(expirationKey);
+    const expirationDate = expirationDateStr ? new Date(expirationDateStr) : new Date();
     if (expirationDate > new Date()) {
-      return sessionStorage.getItem(TOKEN_KEY);
+      return getItem(tokenKey);
     }
 
     // Token expired, clear it
-    clearSessionToken();
+    if (expirationDateStr !== null) clearSessionToken();
     return null;
-  } catch {
-    // Fallback to in-memory storage
-    if (inMemoryExpiration && inMemoryExpiration > new Date()) {
-      return inMemoryToken;
+  };
+
+  const readConsumedContentIds = (): string[] => {
+    if (!isBrowser()) return [];
+
+    try {
+      const stored = getItem(consumedContentKey);
+      const contentIds = stored ? JSON.parse(stored) : [];
+      return Array.isArray(contentIds) ? contentIds : [];
+    } catch {
+      return [];
     }
+  };
 
-    // Token expired or not set, clear it
-    inMemoryToken = null;
-    inMemoryExpiration = null;
-    return null;
-  }
+  const readPopupHistory = (): PopupHistory => {
+    if (!isBrowser()) return emptyPopupHistory;
+
+    try {
+      const history = JSON.parse(getItem(popupHistoryKey) ?? 'null');
+      return typeof history?.count === 'number' && typeof history.lastShownAtByTriggerPoint === 'object'
+        ? history
+        : emptyPopupHistory;
+    } catch {
+      return emptyPopupHistory;
+    }
+  };
+
+  const bindSessionToken = (userId: string) => {
+    if (!isBrowser()) return;
+    const owner: SessionTokenOwner = {organizationCode: options.organizationCode, userId};
+    setItem(ownerKey, JSON.stringify(owner));
+  };
+
+  return {
+    ready: load(),
+    isReady: () => isLoaded,
+    storeSessionToken: (token, expiresIn, userId) => {
+      // Never keep tokens during server rendering, where module state is shared between requests
+      if (!isBrowser()) return;
+
+      const expirationDate = new Date(Date.now() + expiresIn * 1000);
+      setItem(tokenKey, token);
+      setItem(expirationKey, expirationDate.toISOString());
+      if (userId === undefined) {
+        removeItem(ownerKey);
+      } else {
+        bindSessionToken(userId);
+      }
+    },
+    readSessionToken,
+    readSessionTokenOwner: () => {
+      if (!readSessionToken()) return null;
+      try {
+        const owner = JSON.parse(getItem(ownerKey) ?? 'null');
+        return typeof owner?.userId === 'string' && typeof owner.organizationCode === 'string' ? owner : null;
+      } catch {
+        return null;
+      }
+    },
+    bindSessionToken,
+    readSessionTokenExpiration: () => {
+      if (!readSessionToken()) return null;
+      const expirationDateStr = getItem(expirationKey);
+      return expirationDateStr ? new Date(expirationDateStr) : null;
+    },
+    clearSessionToken,
+    storeConsumedContentId: (contentId) => {
+      if (!isBrowser()) return;
+
+      const contentIds = readConsumedContentIds();
+      if (contentIds.includes(contentId)) return;
+      setItem(consumedContentKey, JSON.stringify([...contentIds, contentId]));
+    },
+    readConsumedContentIds,
+    storePopupHistory: (history) => {
+      if (!isBrowser()) return;
+      setItem(popupHistoryKey, JSON.stringify(history));
+    },
+    readPopupHistory,
+    getDeviceId: () => {
+      // Never keep device IDs during server rendering, where module state is shared between requests
+      if (!isBrowser()) return generateDeviceId();
+
+      const storedDeviceId = getItem(deviceIdKey);
+      if (storedDeviceId) return storedDeviceId;
+      const deviceId = generateDeviceId();
+      setItem(deviceIdKey, deviceId);
+      return deviceId;
+    },
+  };
 }
 
 export type InitiateSession = (options: {
   organizationCode: string;
   userId: string;
   userIdVerification?: string;
-  userAttributes?: object
+  userAttributes?: object;
+  /**
+   * Device ID of the anonymous session the user had before being identified, to merge it into the new session
+   */
+  anonymousId?: string;
 }) => Promise<{ sessionToken: string; expiresIn?: number }>;
@@ -0,0 +1,64 @@
+// @vitest-environment node
+import {describe, it, expect, vi} from 'vitest';
+import {renderToString} from 'react-dom/server';
+
+import {WaveCxProvider, useWaveCx, createWaveCxClient} from './index';
+import {createSessionManager} from './sessions';
+
+describe('server rendering', () => {
+  it('renders the provider and its children without browser globals', () => {
+    const Consumer = () => {
+      const {hasContent, isContentLoading} = useWaveCx();
+      return <p>{hasContent('trigger-point') ? 'has content' : 'no content'}, {String(isContentLoading)}</p>;
+    };
+
+    const html = renderToString(
+      <WaveCxProvider organizationCode={'org'}>
+        <Consumer/>
+      </WaveCxProvider>
+    );
+
+    expect(html).toContain('no content');
+    expect(html).toContain('false');
+  });
+
+  it('renders initial content availability on the server', () => {
+    const Consumer = () => {
+      const {hasContent} = useWaveCx();
+      return <p>{hasContent('trigger-point', 'button-triggered') ? 'has content' : 'no content'}</p>;
+    };
+
+    const html = renderToString(
+      <WaveCxProvider
+        organizationCode={'org'}
+        initialContent={[{
+          type: 'featurette',
+          presentationType: 'button-triggered',
+          triggerPoint: 'trigger-point',
+          viewUrl: 'https://mock.content.com/embed',
+        }]}
+      >
+        <Consumer/>
+      </WaveCxProvider>
+    );
+
+    expect(html).toContain('has content');
+  });
+
+  it('ignores events raised during server rendering', async () => {
+    const recordEvent = vi.fn(async () => ({content: []}));
+    const client = createWaveCxClient({organizationCode: 'org', recordEvent});
+
+    await client.handleEvent({type: 'session-started', userId: 'test-id'});
+    await client.handleEvent({type: 'trigger-point', triggerPoint: 'trigger-point'});
+
+    expect(recordEvent).not.toHaveBeenCalled();
+    expect(client.getIsContentLoading()).toBe(false);
+  });
+
+  it('does not keep session tokens on the server', () => {
+    const sessions = createSessionManager({organizationCode: 'org'});
+    sessions.storeSessionToken('token', 3600);
+    expect(sessions.readSessionToken()).toBeNull();
+  });
+});
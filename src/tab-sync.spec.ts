@@ -0,0 +1,52 @@
+import {describe, it, expect, afterEach, vi} from 'vitest';
+
+import {openTabSyncChannel} from './tab-sync';
+
+describe('openTabSyncChannel', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('delivers messages to other channels of the organization', async () => {
+    const received = vi.fn();
+    const otherOrgReceived = vi.fn();
+    const sender = openTabSyncChannel('org', vi.fn());
+    const receiver = openTabSyncChannel('org', received);
+    const otherOrg = openTabSyncChannel('other-org', otherOrgReceived);
+
+    sender.post({type: 'content-consumed', contentId: 'content-1'});
+
+    await vi.waitFor(() => expect(received).toHaveBeenCalledWith({type: 'content-consumed', contentId: 'content-1'}));
+    expect(otherOrgReceived).not.toHaveBeenCalled();
+    [sender, receiver, otherOrg].forEach((channel) => channel.close());
+  });
+
+  it('falls back to storage events without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const received = vi.fn();
+    const channel = openTabSyncChannel('org', received);
+
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: '_wcx_sync_org',
+      newValue: JSON.stringify({message: {type: 'session-ended'}, sentAt: 0, nonce: 0}),
+    }));
+    window.dispatchEvent(new StorageEvent('storage', {key: '_wcx_sync_org', newValue: null}));
+
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(received).toHaveBeenCalledWith({type: 'session-ended'});
+    channel.close();
+  });
+
+  it('posts messages through localStorage without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+    const channel = openTabSyncChannel('org', vi.fn());
+
+    channel.post({type: 'session-ended'});
+
+    expect(setItem).toHaveBeenCalledWith('_wcx_sync_org', expect.stringContaining('"session-ended"'));
+    expect(localStorage.getItem('_wcx_sync_org')).toBeNull();
+    setItem.mockRestore();
+    channel.close();
+  });
+});
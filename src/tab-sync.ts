@@ -0,0 +1,59 @@
+export type TabSyncMessage =
+  | {
+    type: 'session-started';
+    userId: string;
+    userIdVerification?: string;
+    userAttributes?: object;
+    isAnonymous?: boolean;
+  }
+  | { type: 'session-ended' }
+  | { type: 'content-consumed'; contentId: string };
+
+export type TabSyncChannel = {
+  post: (message: TabSyncMessage) => void;
+  close: () => void;
+};
+
+/**
+ * Opens a channel between tabs of the same origin, scoped to an organization.
+ * Uses BroadcastChannel where available, and otherwise `storage` events of localStorage.
+ * Messages are only delivered to other tabs.
+ */
+export function openTabSyncChannel(
+  organizationCode: string,
+  onMessage: (message: TabSyncMessage) => void,
+): TabSyncChannel {
+  const channelName = `_wcx_sync_${organizationCode}`;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (e: MessageEvent<TabSyncMessage>) => onMessage(e.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== channelName || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue).message);
+    } catch {
+      // ignore malformed messages
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    post: (message) => {
+      try {
+        // A unique value makes repeated messages raise storage events too
+        localStorage.setItem(channelName, JSON.stringify({message, sentAt: Date.now(), nonce: Math.random()}));
+        localStorage.removeItem(channelName);
+      } catch {
+        // localStorage unavailable; other tabs can't be reached
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+}
@@ -1,8 +1,15 @@
-import {describe, expect, it} from 'vitest';
+import {afterEach, describe, expect, it, vi} from 'vitest';
 import {http, HttpResponse} from 'msw';
 import {setupServer} from 'msw/node';
 
-import {composeFireTargetedContentEventViaApi, TargetedContent} from './targeted-content';
+import {
+  composeFireTargetedContentEventOnUnloadViaApi,
+  composeFireTargetedContentEventViaApi,
+  getNextScheduleChange,
+  isWithinSchedule,
+  TargetedContent,
+} from './targeted-content';
+import {WaveCxError} from './errors';
 
 describe('Fire Targeted Content', () => {
   it('sends a POST request to the API with the event details', async () => {
@@ -44,6 +51,42 @@ describe('Fire Targeted Content', () => {
     apiServer.close();
   });
 
+  it('sends anonymous session details to the API', async () => {
+    let requestBody: any;
+    const apiServer = setupServer(
+      http.post(`https://api.mock.com/:orgCode/targeted-content-events`, async (r) => {
+        requestBody = await r.request.json();
+        return HttpResponse.json({content: []});
+      }),
+    );
+    apiServer.listen();
+
+    const fn = composeFireTargetedContentEventViaApi({
+      apiBaseUrl: 'https://api.mock.com',
+    });
+    await fn({
+      organizationCode: 'org',
+      userId: 'user-1',
+      type: 'session-started',
+      anonymousId: 'device-1',
+    });
+
+    expect(requestBody.anonymousId).toEqual('device-1');
+    expect(requestBody.anonymous).toBeUndefined();
+
+    await fn({
+      organizationCode: 'org',
+      userId: 'device-1',
+      type: 'session-started',
+      isAnonymous: true,
+    });
+
+    expect(requestBody.anonymous).toBe(true);
+    expect(requestBody.userId).toEqual('device-1');
+
+    apiServer.close();
+  });
+
   it('returns the content received from the API', async () => {
     const content: TargetedContent[] = [
       {
@@ -84,4 +127,165 @@ describe('Fire Targeted Content', () => {
       apiServer.close();
     }
   });
+
+  describe('errors', () => {
+    const fn = composeFireTargetedContentEventViaApi({
+      apiBaseUrl: 'https://api.mock.com',
+      retryFn: (request) => request(),
+    });
+
+    const fireAndCatch = async (sessionToken?: string) => {
+      try {
+        await fn({organizationCode: 'org', userId: 'test-id', type: 'session-refresh', sessionToken});
+      } catch (error) {
+        return error as WaveCxError;
+      }
+      throw new Error('Expected request to fail');
+    };
+
+    it('classifies unsuccessful responses as http-status errors', async () => {
+      const apiServer = setupServer(
+        http.post(`https://api.mock.com/org/targeted-content-events`, () => {
+          return new HttpResponse(null, {status: 500});
+        }),
+      );
+      apiServer.listen();
+
+      try {
+        const error = await fireAndCatch();
+        expect(error).toBeInstanceOf(WaveCxError);
+        expect(error.code).toEqual('http-status');
+        expect(error.status).toEqual(500);
+      } finally {
+        apiServer.close();
+      }
+    });
+
+    it('classifies rejected session tokens as token-expired errors', async () => {
+      const apiServer = setupServer(
+        http.post(`https://api.mock.com/org/targeted-content-events`, () => {
+          return new HttpResponse(null, {status: 401});
+        }),
+      );
+      apiServer.listen();
+
+      try {
+        const error = await fireAndCatch('expired-token');
+        expect(error.code).toEqual('token-expired');
+        expect(error.status).toEqual(401);
+      } finally {
+        apiServer.close();
+      }
+    });
+
+    it('classifies unreadable responses as invalid-response errors', async () => {
+      const apiServer = setupServer(
+        http.post(`https://api.mock.com/org/targeted-content-events`, () => {
+          return HttpResponse.text('<html>Gateway Timeout</html>');
+        }),
+      );
+      apiServer.listen();
+
+      try {
+        const error = await fireAndCatch();
+        expect(error.code).toEqual('invalid-response');
+      } finally {
+        apiServer.close();
+      }
+    });
+
+    it('classifies unreachable APIs as network errors', async () => {
+      const apiServer = setupServer(
+        http.post(`https://api.mock.com/org/targeted-content-events`, () => {
+          return HttpResponse.error();
+        }),
+      );
+      apiServer.listen();
+
+      try {
+        const error = await fireAndCatch();
+        expect(error.code).toEqual('network');
+      } finally {
+        apiServer.close();
+      }
+    });
+  });
+
+  describe('on unload', () => {
+    const url = 'https://api.mock.com/org/targeted-content-events';
+    const event = {
+      organizationCode: 'org',
+      type: 'trigger-point' as const,
+      sessionToken: 'token',
+      userId: 'user-1',
+      triggerPoint: 'tp',
+    };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('sends the event with a beacon', async () => {
+      const sendBeacon = vi.fn(() => true);
+      vi.stubGlobal('navigator', {sendBeacon});
+
+      composeFireTargetedContentEventOnUnloadViaApi({apiBaseUrl: 'https://api.mock.com'})(event);
+
+      expect(sendBeacon).toHaveBeenCalledWith(url, expect.any(Blob));
+      const body = (sendBeacon.mock.calls[0] as unknown as [string, Blob])[1];
+      const text = await new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(body);
+      });
+      expect(JSON.parse(text)).toEqual(expect.objectContaining({
+        type: 'trigger-point', sessionToken: 'token', userId: 'user-1', triggerPoint: 'tp',
+      }));
+    });
+
+    it('sends the event with a keepalive request where beacons are unavailable', () => {
+      vi.stubGlobal('navigator', {});
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, {status: 204}));
+
+      composeFireTargetedContentEventOnUnloadViaApi({apiBaseUrl: 'https://api.mock.com'})(event);
+
+      expect(fetchSpy).toHaveBeenCalledWith(url, expect.objectContaining({method: 'POST', keepalive: true}));
+    });
+  });
+
+  describe('scheduling windows', () => {
+    const content = (window: {startsAt?: string; endsAt?: string}): TargetedContent => ({
+      ...window,
+      triggerPoint: 'tp',
+      type: 'featurette',
+      presentationType: 'popup',
+      viewUrl: 'https://mock.content.com/embed',
+    });
+    const at = (time: string) => Date.parse(time);
+
+    it('includes content within its window', () => {
+      const scheduled = content({startsAt: '2025-01-01T00:00:00Z', endsAt: '2025-02-01T00:00:00Z'});
+
+      expect(isWithinSchedule(scheduled, at('2024-12-31T23:59:59Z'))).toBe(false);
+      expect(isWithinSchedule(scheduled, at('2025-01-01T00:00:00Z'))).toBe(true);
+      expect(isWithinSchedule(scheduled, at('2025-02-01T00:00:00Z'))).toBe(false);
+    });
+
+    it('treats missing or unparseable times as open ends', () => {
+      expect(isWithinSchedule(content({}), 0)).toBe(true);
+      expect(isWithinSchedule(content({startsAt: 'soon', endsAt: '2025-02-01T00:00:00Z'}), 0)).toBe(true);
+    });
+
+    it('gets the next time a window opens or closes', () => {
+      const scheduled = [
+        content({startsAt: '2025-01-01T00:00:00Z', endsAt: '2025-03-01T00:00:00Z'}),
+        content({endsAt: '2025-02-01T00:00:00Z'}),
+      ];
+
+      expect(getNextScheduleChange(scheduled, at('2024-12-01T00:00:00Z'))).toEqual(at('2025-01-01T00:00:00Z'));
+      expect(getNextScheduleChange(scheduled, at('2025-01-01T00:00:00Z'))).toEqual(at('2025-02-01T00:00:00Z'));
+      expect(getNextScheduleChange(scheduled, at('2025-03-01T00:00:00Z'))).toBeUndefined();
+    });
+  });
 });
@@ -1,4 +1,27 @@
+import {WaveCxError} from './errors';
+
 export type TargetedContent = {
+  /**
+   * Stable identifier of the content, as provided by the API.
+   * Content without an ID is assigned one derived from its trigger point, presentation type and URL.
+   */
+  id?: string;
+  /**
+   * Revision of the content, when provided by the API
+   */
+  version?: string | number;
+  /**
+   * Order in which popup content for the same trigger point is presented; higher values are presented first
+   */
+  priority?: number;
+  /**
+   * ISO 8601 time from which the content may be presented
+   */
+  startsAt?: string;
+  /**
+   * ISO 8601 time from which the content is no longer presented
+   */
+  endsAt?: string;
   triggerPoint: string;
   type: 'featurette';
   presentationType: 'popup' | 'button-triggered';
@@ -21,14 +44,71 @@ export type TargetedContent = {
   };
 };
 
+/**
+ * Gets the identifier of a piece of content, deriving one when the content has none.
+ */
+export const getContentId = (content: TargetedContent): string =>
+  content.id ?? `${content.triggerPoint}:${content.presentationType}:${content.viewUrl}`;
+
+/**
+ * Assigns identifiers to content without one and removes duplicates, keeping the first occurrence.
+ */
+export const normalizeContent = (content: TargetedContent[]): TargetedContent[] => {
+  const seenIds = new Set<string>();
+  const normalized: TargetedContent[] = [];
+  for (const item of content) {
+    const id = getContentId(item);
+    if (!seenIds.has(id)) {
+      seenIds.add(id);
+      normalized.push(item.id === id ? item : {...item, id});
+    }
+  }
+  return normalized;
+};
+
+// Unparseable times are treated as an open end of the window
+const parseScheduleTime = (time: string | undefined): number | undefined => {
+  const parsed = time === undefined ? NaN : Date.parse(time);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Whether content is within its scheduling window at the given time (in milliseconds since the epoch).
+ */
+export const isWithinSchedule = (content: TargetedContent, now: number): boolean => {
+  const startsAt = parseScheduleTime(content.startsAt);
+  const endsAt = parseScheduleTime(content.endsAt);
+  return (startsAt === undefined || startsAt <= now) && (endsAt === undefined || now < endsAt);
+};
+
+/**
+ * Gets the earliest time after `now` at which a scheduling window of the given content opens or closes.
+ */
+export const getNextScheduleChange = (content: TargetedContent[], now: number): number | undefined =>
+  content
+    .flatMap((c) => [parseScheduleTime(c.startsAt), parseScheduleTime(c.endsAt)])
+    .filter((time): time is number => time !== undefined && time > now)
+    .reduce<number | undefined>(
+      (earliest, time) => earliest === undefined ? time : Math.min(earliest, time),
+      undefined,
+    );
+
 export type FireTargetedContentEvent = (options: {
-  type: 'session-started' | 'session-refresh' | 'trigger-point';
+  type: 'session-started' | 'session-refresh' | 'attributes-updated' | 'trigger-point';
   sessionToken?: string;
   triggerPoint?: string;
   organizationCode: string;
   userId: string;
   userIdVerification?: string;
   userAttributes?: object;
+  /**
+   * Whether the session is anonymous, identified by a device ID in place of a user ID
+   */
+  isAnonymous?: boolean;
+  /**
+   * Device ID of the anonymous session the user had before being identified, to merge it into the new session
+   */
+  anonymousId?: string;
 }) => Promise<{ sessionToken?: string; expiresIn?: number; content: TargetedContent[] }>;
 
 const SDK_VERSION = __SDK_VERSION__;
@@ -37,6 +117,48 @@ export function clientAgent() {
   return `wavecx-react/${SDK_VERSION}`;
 }
 
+/**
+ * Posts a request that may outlive the page, using `navigator.sendBeacon`,
+ * or `fetch` with `keepalive` where beacons are unavailable or rejected.
+ */
+export function postOnUnload(url: string, body: string): void {
+  if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+    try {
+      if (navigator.sendBeacon(url, new Blob([body], {type: 'application/json'}))) return;
+    } catch {
+      // beacon rejected, e.g. by the browser's limits; sent with fetch instead
+    }
+  }
+  fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Client-Agent': clientAgent(),
+    },
+    body,
+    keepalive: true,
+  }).catch(() => {
+    // nothing more can be done while the page is going away
+  });
+}
+
+const getEventsUrl = (apiBaseUrl: string, organizationCode: string) =>
+  `${apiBaseUrl}/${organizationCode}/targeted-content-events`;
+
+const serializeEvent = (options: Parameters<FireTargetedContentEvent>[0]) => JSON.stringify({
+  type: options.type,
+  sessionToken: options.sessionToken,
+  userId: options.userId,
+  userIdVerification: options.userIdVerification,
+  triggerPoint: options.triggerPoint,
+  anonymous: options.isAnonymous,
+  anonymousId: options.anonymousId,
+  platform: 'desktop',
+  userData: {
+    attributes: options.userAttributes,
+  },
+});
+
 export const composeFireTargetedContentEventViaApi =
   (dependencies: {
     apiBaseUrl: string;
@@ -44,33 +166,43 @@ export const composeFireTargetedContentEventViaApi =
   }): FireTargetedContentEvent =>
   async (options): Promise<{ content: TargetedContent[] }> => {
     const makeRequest = async () => {
-      const response = await fetch(
-        `${dependencies.apiBaseUrl}/${options.organizationCode}/targeted-content-events`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Client-Agent': clientAgent(),
-          },
-          body: JSON.stringify({
-            type: options.type,
-            sessionToken: options.sessionToken,
-            userId: options.userId,
-            userIdVerification: options.userIdVerification,
-            triggerPoint: options.triggerPoint,
-            platform: 'desktop',
-            userData: {
-              attributes: options.userAttributes,
+      let response: Response;
+      try {
+        response = await fetch(
+          getEventsUrl(dependencies.apiBaseUrl, options.organizationCode),
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Client-Agent': clientAgent(),
             },
-          }),
-        }
-      );
+            body: serializeEvent(options),
+          }
+        );
+      } catch (error) {
+        throw new WaveCxError('network', 'API request could not be sent', {cause: error});
+      }
 
       if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}`);
+        const isRejectedToken = options.sessionToken !== undefined
+          && (response.status === 401 || response.status === 403);
+        throw new WaveCxError(
+          isRejectedToken ? 'token-expired' : 'http-status',
+          `API request failed with status ${response.status}`,
+          {status: response.status},
+        );
       }
 
-      return response.json();
+      let body: any;
+      try {
+        body = await response.json();
+      } catch (error) {
+        throw new WaveCxError('invalid-response', 'API response is not valid JSON', {cause: error});
+      }
+      if (!body || !Array.isArray(body.content)) {
+        throw new WaveCxError('invalid-response', 'API response does not include content');
+      }
+      return body;
     };
 
     if (dependencies.retryFn) {
@@ -85,6 +217,15 @@ export const composeFireTargetedContentEventViaApi =
     }
   };
 
+/**
+ * Creates a function sending an event to the API while the page is being hidden or unloaded.
+ * The response is never read, so it only suits events that don't fetch content, such as reached trigger points.
+ */
+export const composeFireTargetedContentEventOnUnloadViaApi =
+  (dependencies: { apiBaseUrl: string }) =>
+  (options: Parameters<FireTargetedContentEvent>[0]): void =>
+    postOnUnload(getEventsUrl(dependencies.apiBaseUrl, options.organizationCode), serializeEvent(options));
+
 export const fireTargetedContentEventViaApi = composeFireTargetedContentEventViaApi({
   apiBaseUrl: 'https://api.wavecx.com',
 });
@@ -0,0 +1,163 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest';
+
+import {createTelemetryBatcher, type TelemetryBatcher} from './telemetry-batch';
+import {type TelemetryBatch, type TelemetryEvent} from './telemetry';
+import {WaveCxError} from './errors';
+
+const viewed = (contentId: string): TelemetryEvent =>
+  ({type: 'content-viewed', contentId, triggerPoint: 'tp', occurredAt: '2026-01-01T00:00:00.000Z'});
+
+const batchOf = (events: TelemetryEvent[], sessionToken = 'token'): TelemetryBatch =>
+  ({organizationCode: 'org', sessionToken, userId: 'user-1', events});
+
+const retryConfig = {maxAttempts: 3, initialDelay: 1000, maxDelay: 4000, multiplier: 2};
+
+describe('createTelemetryBatcher', () => {
+  let batcher: TelemetryBatcher | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    batcher?.close();
+    batcher = undefined;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends buffered events once the batch is full', async () => {
+    const send = vi.fn(async () => {});
+    batcher = createTelemetryBatcher({send, config: {maxBatchSize: 2}});
+
+    await batcher.send(batchOf([viewed('content-1')]));
+    expect(send).not.toHaveBeenCalled();
+
+    await batcher.send(batchOf([viewed('content-2')]));
+    expect(send).toHaveBeenCalledWith(batchOf([viewed('content-1'), viewed('content-2')]));
+  });
+
+  it('sends buffered events after the flush interval', async () => {
+    const send = vi.fn(async () => {});
+    batcher = createTelemetryBatcher({send, config: {flushInterval: 1000}});
+
+    await batcher.send(batchOf([viewed('content-1')]));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends events of another session in a separate batch', async () => {
+    const send = vi.fn(async () => {});
+    batcher = createTelemetryBatcher({send});
+
+    await batcher.send(batchOf([viewed('content-1')], 'token-1'));
+    await batcher.send(batchOf([viewed('content-2')], 'token-2'));
+    await batcher.flush();
+
+    expect(send.mock.calls).toEqual([
+      [batchOf([viewed('content-1')], 'token-1')],
+      [batchOf([viewed('content-2')], 'token-2')],
+    ]);
+  });
+
+  it('retries failed batches with backoff', async () => {
+    const send = vi.fn()
+      .mockRejectedValueOnce(new WaveCxError('network', 'API request could not be sent'))
+      .mockResolvedValue(undefined);
+    batcher = createTelemetryBatcher({send, retryConfig});
+
+    await batcher.send(batchOf([viewed('content-1')]));
+    const flushed = batcher.flush();
+    await vi.advanceTimersByTimeAsync(1000);
+    await flushed;
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry batches whose session token was rejected', async () => {
+    const send = vi.fn().mockRejectedValue(new WaveCxError('token-expired', 'API request failed with status 401'));
+    batcher = createTelemetryBatcher({send, retryConfig});
+
+    await batcher.send(batchOf([viewed('content-1')]));
+    await batcher.flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands batches to onUndelivered once every attempt failed', async () => {
+    const send = vi.fn().mockRejectedValue(new WaveCxError('network', 'API request could not be sent'));
+    const onUndelivered = vi.fn();
+    batcher = createTelemetryBatcher({send, onUndelivered, retryConfig: {...retryConfig, maxAttempts: 1}});
+
+    await batcher.send(batchOf([viewed('content-1')]));
+    await batcher.flush();
+
+    expect(onUndelivered).toHaveBeenCalledWith(batchOf([viewed('content-1')]));
+  });
+
+  it('does not hand batches whose session token was rejected to onUndelivered', async () => {
+    const send = vi.fn().mockRejectedValue(new WaveCxError('token-expired', 'API request failed with status 401'));
+    const onUndelivered = vi.fn();
+    batcher = createTelemetryBatcher({send, onUndelivered, retryConfig});
+
+    await batcher.send(batchOf([viewed('content-1')]));
+    await batcher.flush();
+
+    expect(onUndelivered).not.toHaveBeenCalled();
+  });
+
+  it('hands batches to onUndelivered without sending them while offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const send = vi.fn(async () => {});
+    const sendOnUnload = vi.fn();
+    const onUndelivered = vi.fn();
+    batcher = createTelemetryBatcher({send, sendOnUnload, onUndelivered});
+
+    await batcher.send(batchOf([viewed('content-1')]));
+    await batcher.flush();
+    await batcher.send(batchOf([viewed('content-2')]));
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(onUndelivered.mock.calls).toEqual([
+      [batchOf([viewed('content-1')])],
+      [batchOf([viewed('content-2')])],
+    ]);
+    expect(send).not.toHaveBeenCalled();
+    expect(sendOnUnload).not.toHaveBeenCalled();
+  });
+
+  it('hands buffered events to sendOnUnload when the page is hidden', async () => {
+    const send = vi.fn(async () => {});
+    const sendOnUnload = vi.fn();
+    batcher = createTelemetryBatcher({send, sendOnUnload});
+
+    await batcher.send(batchOf([viewed('content-1')]));
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(sendOnUnload).toHaveBeenCalledWith(batchOf([viewed('content-1')]));
+    expect(send).not.toHaveBeenCalled();
+
+    await batcher.send(batchOf([viewed('content-2')]));
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(sendOnUnload).toHaveBeenLastCalledWith(batchOf([viewed('content-2')]));
+  });
+
+  it('sends buffered events and stops listening when closed', async () => {
+    const send = vi.fn(async () => {});
+    const sendOnUnload = vi.fn();
+    batcher = createTelemetryBatcher({send, sendOnUnload});
+
+    await batcher.send(batchOf([viewed('content-1')]));
+    batcher.close();
+    await batcher.send(batchOf([viewed('content-2')]));
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(send).toHaveBeenCalledWith(batchOf([viewed('content-1')]));
+    expect(sendOnUnload).not.toHaveBeenCalled();
+  });
+});
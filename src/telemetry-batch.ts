@@ -0,0 +1,145 @@
+import {type SendTelemetry, type TelemetryBatch} from './telemetry';
+import {type DebugLog} from './debug';
+import {retryWithBackoff, defaultRetryConfig, type RetryConfig} from './retry';
+import {isSessionTokenRejection} from './errors';
+import {isBrowser} from './environment';
+
+export type TelemetryBatchConfig = {
+  /**
+   * Number of buffered events at which they are sent (default: 20)
+   */
+  maxBatchSize?: number;
+  /**
+   * Milliseconds after the first buffered event at which buffered events are sent (default: 5000)
+   */
+  flushInterval?: number;
+};
+
+export const defaultTelemetryBatchConfig: Required<TelemetryBatchConfig> = {
+  maxBatchSize: 20,
+  flushInterval: 5000,
+};
+
+export type TelemetryBatcher = {
+  /**
+   * Buffers events; resolves once they are buffered, not once they are sent
+   */
+  send: SendTelemetry;
+  /**
+   * Sends all buffered events
+   */
+  flush: () => Promise<void>;
+  /**
+   * Sends all buffered events and stops listening for the page being hidden
+   */
+  close: () => void;
+};
+
+const isOffline = () => isBrowser() && navigator.onLine === false;
+
+/**
+ * Creates a batcher buffering telemetry events and sending them in batches,
+ * once enough events are buffered or the flush interval has passed.
+ *
+ * Batches are sent with `send`, retried with backoff. When the page is hidden or unloaded,
+ * buffered events are handed to `sendOnUnload` instead, which must not rely on the page staying alive
+ * (e.g. `navigator.sendBeacon`). Batches that cannot be sent, because the browser is offline or every
+ * attempt failed, are handed to `onUndelivered`.
+ */
+export function createTelemetryBatcher(options: {
+  send: SendTelemetry;
+  sendOnUnload?: (batch: TelemetryBatch) => void;
+  onUndelivered?: (batch: TelemetryBatch) => void;
+  config?: TelemetryBatchConfig;
+  retryConfig?: RetryConfig;
+  debugLog?: DebugLog;
+}): TelemetryBatcher {
+  const {maxBatchSize, flushInterval} = {...defaultTelemetryBatchConfig, ...options.config};
+  const retryConfig = options.retryConfig ?? defaultRetryConfig;
+
+  let buffer: TelemetryBatch | undefined = undefined;
+  let flushTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+
+  const takeBuffer = (): TelemetryBatch | undefined => {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    const batch = buffer;
+    buffer = undefined;
+    return batch;
+  };
+
+  const sendBatch = async (batch: TelemetryBatch) => {
+    if (options.onUndelivered && isOffline()) {
+      options.debugLog?.('Offline, not sending telemetry batch', { count: batch.events.length });
+      options.onUndelivered(batch);
+      return;
+    }
+
+    options.debugLog?.('Sending telemetry batch', { count: batch.events.length });
+    try {
+      // A rejected session token stays rejected, so only transient failures are retried
+      await retryWithBackoff(
+        () => options.send(batch),
+        retryConfig,
+        options.debugLog,
+        (error) => !isSessionTokenRejection(error),
+      );
+    } catch (error) {
+      options.debugLog?.('Sending telemetry batch failed', { count: batch.events.length, error });
+      if (!isSessionTokenRejection(error)) options.onUndelivered?.(batch);
+    }
+  };
+
+  const flush = async () => {
+    const batch = takeBuffer();
+    if (batch) await sendBatch(batch);
+  };
+
+  const flushOnUnload = () => {
+    const batch = takeBuffer();
+    if (!batch) return;
+    options.debugLog?.('Sending telemetry batch before the page is hidden', { count: batch.events.length });
+    if (options.onUndelivered && isOffline()) {
+      options.onUndelivered(batch);
+    } else if (options.sendOnUnload) {
+      options.sendOnUnload(batch);
+    } else {
+      void sendBatch(batch);
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flushOnUnload();
+  };
+
+  if (isBrowser()) {
+    window.addEventListener('pagehide', flushOnUnload);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+
+  return {
+    send: async (batch) => {
+      // Events of another session are never sent with this session's token
+      if (buffer && (buffer.sessionToken !== batch.sessionToken || buffer.userId !== batch.userId)) {
+        void flush();
+      }
+      buffer = buffer ? {...buffer, events: [...buffer.events, ...batch.events]} : {...batch};
+
+      if (buffer.events.length >= maxBatchSize) {
+        void flush();
+      } else if (!flushTimer) {
+        flushTimer = setTimeout(() => {
+          void flush();
+        }, flushInterval);
+      }
+    },
+    flush,
+    close: () => {
+      if (isBrowser()) {
+        window.removeEventListener('pagehide', flushOnUnload);
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
+      void flush();
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {http, HttpResponse} from 'msw';
+import {setupServer} from 'msw/node';
+
+import {
+  composeSendTelemetryOnUnloadViaApi,
+  composeSendTelemetryViaApi,
+  type TelemetryEvent,
+} from './telemetry';
+import {WaveCxError} from './errors';
+
+const events: TelemetryEvent[] = [
+  {type: 'content-viewed', contentId: 'content-1', triggerPoint: 'tp-1', occurredAt: '2026-01-01T00:00:00.000Z'},
+  {
+    type: 'content-dismissed',
+    contentId: 'content-1',
+    triggerPoint: 'tp-1',
+    occurredAt: '2026-01-01T00:00:05.000Z',
+    dwellTime: 5000,
+    method: 'close-button',
+  },
+];
+
+describe('composeSendTelemetryViaApi', () => {
+  it('sends events to the telemetry endpoint with the session token', async () => {
+    let passedOrgCode = '';
+    let requestBody: any;
+    const apiServer = setupServer(
+      http.post('https://api.mock.com/:orgCode/targeted-content-telemetry', async (r) => {
+        passedOrgCode = r.params.orgCode as string;
+        requestBody = await r.request.json();
+        return new HttpResponse(null, {status: 204});
+      }),
+    );
+    apiServer.listen();
+
+    const sendTelemetry = composeSendTelemetryViaApi({apiBaseUrl: 'https://api.mock.com'});
+    await sendTelemetry({organizationCode: 'org', sessionToken: 'token', userId: 'user-1', events});
+
+    expect(passedOrgCode).toEqual('org');
+    expect(requestBody).toEqual({sessionToken: 'token', userId: 'user-1', events});
+
+    apiServer.close();
+  });
+
+  it('classifies unsuccessful responses', async () => {
+    let status = 500;
+    const apiServer = setupServer(
+      http.post('https://api.mock.com/:orgCode/targeted-content-telemetry', () =>
+        new HttpResponse(null, {status})),
+    );
+    apiServer.listen();
+
+    const sendTelemetry = composeSendTelemetryViaApi({apiBaseUrl: 'https://api.mock.com'});
+    const send = () => sendTelemetry({organizationCode: 'org', sessionToken: 'token', userId: 'user-1', events});
+
+    await expect(send()).rejects.toEqual(new WaveCxError('http-status', 'API request failed with status 500'));
+    status = 401;
+    await expect(send()).rejects.toMatchObject({code: 'token-expired', status: 401});
+
+    apiServer.close();
+  });
+});
+
+describe('composeSendTelemetryOnUnloadViaApi', () => {
+  const batch = {organizationCode: 'org', sessionToken: 'token', userId: 'user-1', events};
+  const url = 'https://api.mock.com/org/targeted-content-telemetry';
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends events with a beacon', async () => {
+    const sendBeacon = vi.fn(() => true);
+    vi.stubGlobal('navigator', {sendBeacon});
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    composeSendTelemetryOnUnloadViaApi({apiBaseUrl: 'https://api.mock.com'})(batch);
+
+    expect(sendBeacon).toHaveBeenCalledWith(url, expect.any(Blob));
+    const body = (sendBeacon.mock.calls[0] as unknown as [string, Blob])[1];
+    const text = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(body);
+    });
+    expect(body.type).toEqual('application/json');
+    expect(JSON.parse(text)).toEqual({sessionToken: 'token', userId: 'user-1', events});
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('sends events with a keepalive request when the beacon is rejected', () => {
+    vi.stubGlobal('navigator', {sendBeacon: () => false});
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, {status: 204}));
+
+    composeSendTelemetryOnUnloadViaApi({apiBaseUrl: 'https://api.mock.com'})(batch);
+
+    expect(fetchSpy).toHaveBeenCalledWith(url, expect.objectContaining({method: 'POST', keepalive: true}));
+  });
+});
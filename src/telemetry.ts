@@ -0,0 +1,90 @@
+import {clientAgent, postOnUnload} from './targeted-content';
+import {WaveCxError} from './errors';
+
+/**
+ * How presented content was closed: by the user (`close-button`, `backdrop` or `escape`),
+ * by other content replacing it (`superseded`), or by the session ending (`session-end`)
+ */
+export type DismissalMethod = 'close-button' | 'backdrop' | 'escape' | 'superseded' | 'session-end';
+
+export type TelemetryEvent =
+  /**
+   * A reached trigger point; sent as a `trigger-point` event through `recordEvent`, never through `sendTelemetry`
+   */
+  | { type: 'trigger-point'; triggerPoint: string; occurredAt: string }
+  | { type: 'content-viewed'; contentId: string; triggerPoint: string; occurredAt: string }
+  | {
+    type: 'content-dismissed';
+    contentId: string;
+    triggerPoint: string;
+    occurredAt: string;
+    /**
+     * Milliseconds the content was presented for
+     */
+    dwellTime: number;
+    method: DismissalMethod;
+  };
+
+export type TelemetryBatch = {
+  organizationCode: string;
+  sessionToken: string;
+  userId: string;
+  events: TelemetryEvent[];
+};
+
+export type SendTelemetry = (batch: TelemetryBatch) => Promise<void>;
+
+const getTelemetryUrl = (apiBaseUrl: string, organizationCode: string) =>
+  `${apiBaseUrl}/${organizationCode}/targeted-content-telemetry`;
+
+const serializeBatch = (batch: TelemetryBatch) =>
+  JSON.stringify({sessionToken: batch.sessionToken, userId: batch.userId, events: batch.events});
+
+/**
+ * Creates a function sending telemetry events to the telemetry endpoint of the API.
+ */
+export const composeSendTelemetryViaApi =
+  (dependencies: {
+    apiBaseUrl: string;
+    retryFn?: typeof import('./retry').retryWithBackoff;
+  }): SendTelemetry =>
+  async (options) => {
+    const makeRequest = async () => {
+      let response: Response;
+      try {
+        response = await fetch(
+          getTelemetryUrl(dependencies.apiBaseUrl, options.organizationCode),
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Client-Agent': clientAgent(),
+            },
+            body: serializeBatch(options),
+          }
+        );
+      } catch (error) {
+        throw new WaveCxError('network', 'API request could not be sent', {cause: error});
+      }
+
+      if (!response.ok) {
+        const isRejectedToken = response.status === 401 || response.status === 403;
+        throw new WaveCxError(
+          isRejectedToken ? 'token-expired' : 'http-status',
+          `API request failed with status ${response.status}`,
+          {status: response.status},
+        );
+      }
+    };
+
+    await (dependencies.retryFn ? dependencies.retryFn(makeRequest) : makeRequest());
+  };
+
+/**
+ * Creates a function sending telemetry events to the API while the page is being hidden or unloaded,
+ * using `navigator.sendBeacon`, or `fetch` with `keepalive` where beacons are unavailable or rejected.
+ */
+export const composeSendTelemetryOnUnloadViaApi =
+  (dependencies: { apiBaseUrl: string }) =>
+  (batch: TelemetryBatch): void =>
+    postOnUnload(getTelemetryUrl(dependencies.apiBaseUrl, batch.organizationCode), serializeBatch(batch));
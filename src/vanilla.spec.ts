@@ -0,0 +1,28 @@
+import {describe, it, expect} from 'vitest';
+
+import {createWaveCxClient} from './vanilla';
+
+describe('vanilla entry', () => {
+  it('raises events and renders modals without React', async () => {
+    const client = createWaveCxClient({
+      organizationCode: 'org',
+      recordEvent: async () => ({
+        content: [{
+          type: 'featurette',
+          presentationType: 'popup',
+          triggerPoint: 'trigger-point',
+          viewUrl: 'https://mock.content.com/embed',
+        }],
+      }),
+    });
+
+    await client.handleEvent({type: 'session-started', userId: 'test-id'});
+    expect(client.hasContent('trigger-point', 'popup')).toBe(true);
+
+    await client.handleEvent({type: 'trigger-point', triggerPoint: 'trigger-point'});
+    expect(document.querySelector('dialog')).not.toBeNull();
+
+    client.destroy();
+    expect(document.querySelector('dialog')).toBeNull();
+  });
+});
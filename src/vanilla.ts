@@ -0,0 +1,95 @@
+/**
+ * Framework-agnostic entry point, published as `@wavecx/wavecx-react/core`.
+ *
+ * Exposes the event engine and DOM-based modal rendering without React
+ * and without importing styles as a side effect.
+ * Include `@wavecx/wavecx-react/styles.css` on the page for modal styling.
+ */
+export {
+  createWaveCxClient,
+  type WaveCxClient,
+  type CoreConfig,
+  type LifecycleCallbacks,
+  type ContentDetails,
+  type DismissCallback,
+  type Event,
+  type EventHandler,
+  type Listener,
+  type ContentFetchStrategy,
+} from './core';
+
+export {
+  fireTargetedContentEventViaApi,
+  composeFireTargetedContentEventViaApi,
+  type TargetedContent,
+  type FireTargetedContentEvent,
+} from './targeted-content';
+
+export {
+  createSessionStorageSessionStore,
+  createLocalStorageSessionStore,
+  createMemorySessionStore,
+  createCookieSessionStore,
+  type InitiateSession,
+  type SessionStore,
+} from './sessions';
+
+export {
+  WaveCxError,
+  type WaveCxErrorCode,
+} from './errors';
+
+export {
+  type RetryConfig,
+  defaultRetryConfig,
+} from './retry';
+
+export {
+  type PopupPolicy,
+  type PopupSuppressionReason,
+} from './popup-policy';
+
+export {
+  type ContentRefreshConfig,
+} from './content-refresh';
+
+export {
+  composeServerSentEventsTransport,
+  composeWebSocketTransport,
+  type ContentStreamTransport,
+  type ContentStreamConnection,
+  type ContentStreamMessage,
+} from './content-stream';
+
+export {
+  createLocalStorageContentAdapter,
+  type OfflineContentConfig,
+  type ContentStorageAdapter,
+  type PersistedContent,
+} from './content-store';
+
+export {
+  composeSendTelemetryViaApi,
+  type SendTelemetry,
+  type TelemetryBatch,
+  type TelemetryEvent,
+  type DismissalMethod,
+} from './telemetry';
+
+export {
+  type TelemetryBatchConfig,
+} from './telemetry-batch';
+
+export {
+  createIndexedDbOutboxAdapter,
+  createLocalStorageOutboxAdapter,
+  type OfflineOutboxConfig,
+  type OutboxStorageAdapter,
+  type OutboxEntry,
+} from './outbox';
+
+export {
+  type MockModeConfig,
+  defaultMockModeConfig,
+  generateMockContent,
+} from './mock-mode';